@@ -1,12 +1,18 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { PenTool, Wand2, Search, Play, X, MessageSquare, BrainCircuit, Settings2, Video, Activity, Eye, EyeOff, AlertTriangle, Cpu, Layers, Trash2, CheckCircle2, Palette, PaintBucket, MoveVertical, Timer, Split, Volume2, VolumeX, FileVideo, FileType } from 'lucide-react';
-import { AppMode, SignatureAnalysis, HandwritingStyle, HandwritingStyleKey } from './types';
+import { PenTool, Wand2, Search, Play, Pause, X, MessageSquare, BrainCircuit, Settings2, Video, Activity, Eye, EyeOff, AlertTriangle, Cpu, Layers, Trash2, CheckCircle2, Palette, PaintBucket, MoveVertical, Timer, Split, Volume2, VolumeX, FileVideo, FileType, FileCode, FileJson, FileArchive } from 'lucide-react';
+import { AppMode, SignatureAnalysis, HandwritingStyle, HandwritingStyleKey, StrokeOrder } from './types';
 import { refineSignature, editSignature, generateRapidInsight } from './services/geminiService';
-import { analyzeSignatureLocal } from './services/localTracer';
+import { TracingMode, TraceProgress } from './services/tracerCore';
+import { analyzeSignatureInWorker } from './services/tracerPool';
+import { ThresholdMethod } from './services/binarization';
 import { DropZone } from './components/DropZone';
 import { CanvasAnimator, CanvasAnimatorHandle } from './components/CanvasAnimator';
-import { ExportFormat } from './services/animationEngine';
+import { DEFAULT_EXPORT_SETTINGS, ExportFormat } from './services/animationEngine';
+import { SvgAnimationMode } from './services/svgExport';
+import { DEFAULT_EXPORT_SIZE, EXPORT_SIZE_PRESETS, ExportSizePreset, FitMode } from './services/exportLayout';
+import { TimingModelName } from './services/timingModels';
+import { PenToolKind } from './services/penSprites';
 
 const PRESETS: Record<HandwritingStyleKey, HandwritingStyle> = {
   smooth_cursive: {
@@ -59,6 +65,17 @@ const PRESETS: Record<HandwritingStyleKey, HandwritingStyle> = {
   }
 };
 
+// Download names for the files the engine produces
+const FILE_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'application/json': 'json',
+  'video/webm': 'webm',
+  'image/apng': 'png',
+  'application/zip': 'zip'
+};
+
 interface SignatureItem {
   id: string;
   original: string;
@@ -67,6 +84,7 @@ interface SignatureItem {
   analysis: SignatureAnalysis | null;
   status: 'idle' | 'refining' | 'analyzing' | 'editing' | 'success' | 'error';
   error?: string;
+  progress?: TraceProgress;
   timestamp: number;
 }
 
@@ -77,45 +95,79 @@ function App() {
   // View State
   const [isAnimating, setIsAnimating] = useState(false);
   const [prompt, setPrompt] = useState("");
+  const [tracingMode, setTracingMode] = useState<TracingMode>('walker');
+  const [strokeOrder, setStrokeOrder] = useState<StrokeOrder>('ltr');
+  const [thresholdMethod, setThresholdMethod] = useState<ThresholdMethod>('otsu');
+  const [inkHueFilter, setInkHueFilter] = useState<number | null>(null);
+  const [removeRuledLines, setRemoveRuledLines] = useState(false);
   const [showStrokeOrder, setShowStrokeOrder] = useState(false);
   const [showDownloadModal, setShowDownloadModal] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [exportFps, setExportFps] = useState(DEFAULT_EXPORT_SETTINGS.fps);
+  const [videoBitrate, setVideoBitrate] = useState(DEFAULT_EXPORT_SETTINGS.videoBitrate);
+  const [exportSize, setExportSize] = useState<ExportSizePreset | 'custom' | 'shown'>(DEFAULT_EXPORT_SIZE);
+  const [customSize, setCustomSize] = useState({ width: 1920, height: 1080 });
+  const [exportFit, setExportFit] = useState<FitMode>(DEFAULT_EXPORT_SETTINGS.fit);
+  const [exportPadding, setExportPadding] = useState(DEFAULT_EXPORT_SETTINGS.padding);
+  const [svgAnimation, setSvgAnimation] = useState<SvgAnimationMode>(DEFAULT_EXPORT_SETTINGS.svgAnimation);
   
   // Appearance State
   const [strokeColor, setStrokeColor] = useState<string>('#111111');
   const [bgColor, setBgColor] = useState<string>('#fdfbf7');
+  const [transparentPaper, setTransparentPaper] = useState(false);
   const [thickness, setThickness] = useState<number>(0.8);
   const [isSoundEnabled, setIsSoundEnabled] = useState(true);
+  const [penTool, setPenTool] = useState<PenToolKind>('none');
+  const [penImageSrc, setPenImageSrc] = useState<string | null>(null);
   
   // Preset State
   const [selectedPresetKey, setSelectedPresetKey] = useState<HandwritingStyleKey>('smooth_cursive');
   const [inertiaFactor, setInertiaFactor] = useState<number>(PRESETS['smooth_cursive'].inertia_factor);
   const [tremorAmp, setTremorAmp] = useState<number>(PRESETS['smooth_cursive'].micro_tremor_amp_px);
   const [tremorFreq, setTremorFreq] = useState<number>(PRESETS['smooth_cursive'].micro_tremor_freq_hz);
+  const [slantAngle, setSlantAngle] = useState<number>(PRESETS['smooth_cursive'].slant_angle_deg);
+  const [reslant, setReslant] = useState(false);
+  const [timingModel, setTimingModel] = useState<TimingModelName>('ms-per-px');
+  const [airStrokes, setAirStrokes] = useState(false);
   
   // Timing State
   const [duration, setDuration] = useState<number>(2.0);
 
+  // Playback State
+  const [isPaused, setIsPaused] = useState(false);
+  const [playheadMs, setPlayheadMs] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
   const animatorRef = useRef<CanvasAnimatorHandle>(null);
+  const tracingAbortRef = useRef<Map<string, AbortController>>(new Map());
 
   const activePreset = useMemo<HandwritingStyle>(() => ({
     ...PRESETS[selectedPresetKey],
     inertia_factor: inertiaFactor,
     micro_tremor_amp_px: tremorAmp,
-    micro_tremor_freq_hz: tremorFreq
-  }), [selectedPresetKey, inertiaFactor, tremorAmp, tremorFreq]);
+    micro_tremor_freq_hz: tremorFreq,
+    slant_angle_deg: slantAngle
+  }), [selectedPresetKey, inertiaFactor, tremorAmp, tremorFreq, slantAngle]);
 
   useEffect(() => {
     const preset = PRESETS[selectedPresetKey];
     setInertiaFactor(preset.inertia_factor);
     setTremorAmp(preset.micro_tremor_amp_px);
     setTremorFreq(preset.micro_tremor_freq_hz);
+    setSlantAngle(preset.slant_angle_deg);
   }, [selectedPresetKey]);
 
   const activeItem = items.find(i => i.id === activeId) || null;
   const isLoading = activeItem && ['refining', 'analyzing', 'editing'].includes(activeItem.status);
 
+  // Keep the order control on what the active analysis was traced with, so re-analysing keeps it
+  const activeStrokeOrder = activeItem?.analysis?.metadata.stroke_order;
+  useEffect(() => {
+    if (activeStrokeOrder) setStrokeOrder(activeStrokeOrder);
+  }, [activeStrokeOrder]);
+
   // Helper: Get the actual image string based on selection
   const getActiveImage = (item: SignatureItem) => {
     if (item.selectedSource === 'refined' && item.processed) {
@@ -161,6 +213,7 @@ function App() {
 
   const handleRemoveItem = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
+    handleCancelAnalysis(id);
     setItems(prev => {
         const next = prev.filter(i => i.id !== id);
         if (activeId === id) {
@@ -190,10 +243,23 @@ function App() {
   };
 
   const performAnalysis = async (item: SignatureItem) => {
-      updateItem(item.id, { status: 'analyzing', error: undefined });
+      const controller = new AbortController();
+      tracingAbortRef.current.get(item.id)?.abort();
+      tracingAbortRef.current.set(item.id, controller);
+
+      updateItem(item.id, { status: 'analyzing', error: undefined, progress: undefined });
       try {
         const imgToAnalyze = getActiveImage(item);
-        const result = await analyzeSignatureLocal(imgToAnalyze);
+        const result = await analyzeSignatureInWorker(imgToAnalyze, {
+            mode: tracingMode,
+            order: strokeOrder,
+            threshold: thresholdMethod,
+            inkHue: inkHueFilter ?? undefined,
+            removeRuledLines
+        }, {
+            signal: controller.signal,
+            onProgress: (progress) => updateItem(item.id, { progress })
+        });
         
         generateRapidInsight(imgToAnalyze).then(insight => {
              updateItem(item.id, {
@@ -209,27 +275,38 @@ function App() {
 
         updateItem(item.id, { 
             analysis: result, 
-            status: 'success' 
+            status: 'success',
+            progress: undefined
         });
       } catch (err) {
+         if (err instanceof DOMException && err.name === 'AbortError') {
+             updateItem(item.id, { status: 'idle', progress: undefined });
+             return;
+         }
          updateItem(item.id, { 
             status: 'error', 
-            error: err instanceof Error ? err.message : "Failed to analyze" 
+            error: err instanceof Error ? err.message : "Failed to analyze",
+            progress: undefined
          });
+      } finally {
+         if (tracingAbortRef.current.get(item.id) === controller) {
+             tracingAbortRef.current.delete(item.id);
+         }
       }
   };
 
+  const handleCancelAnalysis = (id: string) => {
+    tracingAbortRef.current.get(id)?.abort();
+  };
+
   const handleAnalyze = async () => {
     if (!activeItem) return;
     await performAnalysis(activeItem);
   };
 
+  // Items are traced in parallel, the worker pool caps how many run at once
   const handleAnalyzeAll = async () => {
-    for (const item of items) {
-        if (!item.analysis) {
-            await performAnalysis(item);
-        }
-    }
+    await Promise.all(items.filter(item => !item.analysis && item.status !== 'analyzing').map(performAnalysis));
   };
 
   const handleEdit = async () => {
@@ -256,24 +333,60 @@ function App() {
   const handleAnimate = () => {
     if (!activeItem) return;
     setIsAnimating(true);
+    setIsPaused(false);
+    setPlayheadMs(0);
     setShowStrokeOrder(false);
   };
 
+  const handlePlayPause = () => {
+    if (!isAnimating) {
+      handleAnimate();
+    } else if (isPaused) {
+      animatorRef.current?.resume();
+      setIsPaused(false);
+    } else {
+      animatorRef.current?.pause();
+      setIsPaused(true);
+    }
+  };
+
+  const handleSeek = (timeMs: number) => {
+    setPlayheadMs(timeMs);
+    animatorRef.current?.seek(timeMs);
+  };
+
+  const handlePlaybackRate = (rate: number) => {
+    setPlaybackRate(rate);
+    animatorRef.current?.setPlaybackRate(rate);
+  };
+
   const triggerExport = (format: ExportFormat) => {
     if (animatorRef.current) {
         setExportProgress(0);
+        setExportError(null);
         setIsExporting(true);
+        setIsPaused(false);
         setShowDownloadModal(false);
-        animatorRef.current.exportAnimation(format);
+        const outputSize = exportSize === 'shown' ? null
+          : exportSize === 'custom' ? customSize
+          : { width: EXPORT_SIZE_PRESETS[exportSize].width, height: EXPORT_SIZE_PRESETS[exportSize].height };
+        animatorRef.current.exportAnimation(format, {
+          fps: exportFps,
+          videoBitrate,
+          svgAnimation,
+          outputSize,
+          fit: exportFit,
+          padding: exportPadding
+        });
     }
   };
 
-  const handleVideoGenerated = (url: string) => {
+  const handleVideoGenerated = (url: string, mimeType: string) => {
       // If we are in exporting state, download the file
       if (isExporting) {
         const link = document.createElement('a');
         link.href = url;
-        const ext = url.includes('gif') ? 'gif' : 'mp4';
+        const ext = FILE_EXTENSIONS[mimeType] ?? 'mp4';
         link.download = `signature_animation_${activeItem?.id}.${ext}`; 
         document.body.appendChild(link);
         link.click();
@@ -282,6 +395,11 @@ function App() {
       }
   };
 
+  const handleExportError = (message: string) => {
+      setIsExporting(false);
+      setExportError(message);
+  };
+
   return (
     <div className="min-h-screen bg-background text-slate-200 font-sans selection:bg-primary/30 relative">
       
@@ -298,6 +416,94 @@ function App() {
                   
                   <h3 className="text-xl font-bold mb-1">Download Animation</h3>
                   <p className="text-sm text-secondary mb-6">Select your preferred format</p>
+
+                  <div className="grid grid-cols-2 gap-y-2 items-center mb-4 text-sm">
+                      <span className="text-gray-400">Frame Rate</span>
+                      <select
+                        value={exportFps}
+                        onChange={(e) => { setExportFps(parseInt(e.target.value)); }}
+                        className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                      >
+                          {[10, 15, 20, 24, 30, 50, 60].map(fps => (
+                              <option key={fps} value={fps}>{fps} fps</option>
+                          ))}
+                      </select>
+                      <span className="text-gray-400">Output Size</span>
+                      <select
+                        value={exportSize}
+                        onChange={(e) => { setExportSize(e.target.value as ExportSizePreset | 'custom' | 'shown'); }}
+                        className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                      >
+                          <option value="shown">As shown on screen</option>
+                          {(Object.keys(EXPORT_SIZE_PRESETS) as ExportSizePreset[]).map(key => (
+                              <option key={key} value={key}>
+                                  {EXPORT_SIZE_PRESETS[key].label} ({EXPORT_SIZE_PRESETS[key].width}×{EXPORT_SIZE_PRESETS[key].height})
+                              </option>
+                          ))}
+                          <option value="custom">Custom</option>
+                      </select>
+                      {exportSize === 'custom' && (
+                          <>
+                              <span className="text-gray-400">Width × Height</span>
+                              <div className="flex items-center gap-1">
+                                  <input
+                                    type="number" min="16" max="7680" step="2"
+                                    value={customSize.width}
+                                    onChange={(e) => { setCustomSize({ ...customSize, width: Math.max(16, parseInt(e.target.value) || 16) }); }}
+                                    className="w-full bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                                  />
+                                  <span className="text-gray-500">×</span>
+                                  <input
+                                    type="number" min="16" max="7680" step="2"
+                                    value={customSize.height}
+                                    onChange={(e) => { setCustomSize({ ...customSize, height: Math.max(16, parseInt(e.target.value) || 16) }); }}
+                                    className="w-full bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                                  />
+                              </div>
+                          </>
+                      )}
+                      <span className="text-gray-400">Fit</span>
+                      <select
+                        value={exportFit}
+                        disabled={exportSize === 'shown'}
+                        onChange={(e) => { setExportFit(e.target.value as FitMode); }}
+                        className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1 disabled:opacity-40"
+                      >
+                          <option value="contain">Fit signature</option>
+                          <option value="cover">Fill with signature</option>
+                          <option value="canvas">Fit canvas as shown</option>
+                      </select>
+                      <span className="text-gray-400">Padding</span>
+                      <select
+                        value={exportPadding}
+                        disabled={exportSize === 'shown'}
+                        onChange={(e) => { setExportPadding(parseFloat(e.target.value)); }}
+                        className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1 disabled:opacity-40"
+                      >
+                          {[0, 0.04, 0.08, 0.12, 0.2].map(padding => (
+                              <option key={padding} value={padding}>{Math.round(padding * 100)}%</option>
+                          ))}
+                      </select>
+                      <span className="text-gray-400">Video Bitrate</span>
+                      <select
+                        value={videoBitrate}
+                        onChange={(e) => { setVideoBitrate(parseInt(e.target.value)); }}
+                        className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                      >
+                          {[2_000_000, 5_000_000, 10_000_000, 20_000_000].map(bps => (
+                              <option key={bps} value={bps}>{bps / 1_000_000} Mbps</option>
+                          ))}
+                      </select>
+                      <span className="text-gray-400">SVG Animation</span>
+                      <select
+                        value={svgAnimation}
+                        onChange={(e) => { setSvgAnimation(e.target.value as SvgAnimationMode); }}
+                        className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                      >
+                          <option value="css">CSS keyframes</option>
+                          <option value="smil">SMIL</option>
+                      </select>
+                  </div>
                   
                   <div className="space-y-3">
                       <button 
@@ -338,6 +544,57 @@ function App() {
                               <div className="text-xs text-gray-500">Animated Image</div>
                           </div>
                       </button>
+
+                      <button 
+                        onClick={() => triggerExport('svg')}
+                        className="w-full flex items-center gap-4 p-4 rounded-xl bg-white/5 hover:bg-white/10 border border-white/5 transition-colors group"
+                      >
+                          <div className="p-2 bg-amber-500/20 rounded-lg text-amber-400 group-hover:scale-110 transition-transform">
+                              <FileCode className="w-5 h-5" />
+                          </div>
+                          <div className="text-left">
+                              <div className="font-semibold text-gray-200">Animated SVG</div>
+                              <div className="text-xs text-gray-500">Crisp Vector for Web & Email</div>
+                          </div>
+                      </button>
+
+                      <button 
+                        onClick={() => triggerExport('lottie')}
+                        className="w-full flex items-center gap-4 p-4 rounded-xl bg-white/5 hover:bg-white/10 border border-white/5 transition-colors group"
+                      >
+                          <div className="p-2 bg-pink-500/20 rounded-lg text-pink-400 group-hover:scale-110 transition-transform">
+                              <FileJson className="w-5 h-5" />
+                          </div>
+                          <div className="text-left">
+                              <div className="font-semibold text-gray-200">Lottie JSON</div>
+                              <div className="text-xs text-gray-500">Native Playback in Mobile Apps</div>
+                          </div>
+                      </button>
+
+                      {transparentPaper && (
+                        <>
+                          <div className="text-xs text-secondary font-semibold uppercase tracking-wider pt-2">With Transparency</div>
+                          {([
+                            ['webm-alpha', 'WebM (VP9 Alpha)', 'Video for Compositing', FileVideo],
+                            ['apng', 'APNG', 'Animated PNG', FileType],
+                            ['png-zip', 'PNG Sequence', 'Zipped Frames for Editors', FileArchive]
+                          ] as [ExportFormat, string, string, typeof FileType][]).map(([format, title, subtitle, Icon]) => (
+                            <button 
+                              key={format}
+                              onClick={() => triggerExport(format)}
+                              className="w-full flex items-center gap-4 p-4 rounded-xl bg-white/5 hover:bg-white/10 border border-white/5 transition-colors group"
+                            >
+                                <div className="p-2 bg-cyan-500/20 rounded-lg text-cyan-400 group-hover:scale-110 transition-transform">
+                                    <Icon className="w-5 h-5" />
+                                </div>
+                                <div className="text-left">
+                                    <div className="font-semibold text-gray-200">{title}</div>
+                                    <div className="text-xs text-gray-500">{subtitle}</div>
+                                </div>
+                            </button>
+                          ))}
+                        </>
+                      )}
                   </div>
               </div>
           </div>
@@ -383,6 +640,14 @@ function App() {
                             <div className="w-4 h-4 rounded-full border-2 border-primary border-t-transparent animate-spin bg-black/50"></div>
                         )}
                     </div>
+                    {item.status === 'analyzing' && item.progress && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1 bg-black/50">
+                            <div 
+                                className="h-full bg-primary transition-all duration-200" 
+                                style={{width: `${Math.round(100 * item.progress.pixelsConsumed / Math.max(1, item.progress.totalPixels))}%`}}
+                            ></div>
+                        </div>
+                    )}
                     <button 
                         onClick={(e) => handleRemoveItem(e, item.id)}
                         className="absolute bottom-1 right-1 p-1 bg-black/50 hover:bg-red-500/80 rounded-lg opacity-0 group-hover:opacity-100 transition-all"
@@ -517,6 +782,110 @@ function App() {
                 </button>
               </div>
 
+              <div>
+                <label className="text-sm text-secondary mb-2 block">Tracing Mode</label>
+                <div className="bg-black/20 p-1 rounded-xl flex gap-1">
+                  {([['walker', 'Centroid Walker'], ['skeleton', 'Skeleton Centerline']] as [TracingMode, string][]).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setTracingMode(mode)}
+                      disabled={isLoading}
+                      className={`flex-1 py-2 px-3 rounded-lg text-xs font-medium transition-all ${
+                        tracingMode === mode
+                          ? 'bg-purple-600/30 text-purple-200'
+                          : 'text-secondary hover:bg-white/5 hover:text-white'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm text-secondary mb-2 block">Stroke Order</label>
+                <div className="bg-black/20 p-1 rounded-xl flex gap-1">
+                  {([['ltr', 'Left → Right'], ['rtl', 'Right → Left'], ['ttb', 'Top → Bottom'], ['headline-first', 'Headline First']] as [StrokeOrder, string][]).map(([order, label]) => (
+                    <button
+                      key={order}
+                      onClick={() => setStrokeOrder(order)}
+                      disabled={isLoading}
+                      className={`flex-1 py-2 px-2 rounded-lg text-xs font-medium transition-all ${
+                        strokeOrder === order
+                          ? 'bg-purple-600/30 text-purple-200'
+                          : 'text-secondary hover:bg-white/5 hover:text-white'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm text-secondary mb-2 block">Ink Threshold</label>
+                <div className="bg-black/20 p-1 rounded-xl flex gap-1">
+                  {([['fixed', 'Fixed'], ['otsu', 'Auto (Otsu)'], ['sauvola', 'Local (Sauvola)']] as [ThresholdMethod, string][]).map(([method, label]) => (
+                    <button
+                      key={method}
+                      onClick={() => setThresholdMethod(method)}
+                      disabled={isLoading}
+                      className={`flex-1 py-2 px-3 rounded-lg text-xs font-medium transition-all ${
+                        thresholdMethod === method
+                          ? 'bg-purple-600/30 text-purple-200'
+                          : 'text-secondary hover:bg-white/5 hover:text-white'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs text-secondary mb-1 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={inkHueFilter !== null}
+                      onChange={(e) => setInkHueFilter(e.target.checked ? 220 : null)}
+                      disabled={isLoading}
+                      className="accent-purple-500"
+                    />
+                    Keep Ink Hue Only
+                  </label>
+                  {inkHueFilter !== null && (
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="w-4 h-4 rounded-full border border-white/20 flex-shrink-0"
+                        style={{ backgroundColor: `hsl(${inkHueFilter}, 80%, 45%)` }}
+                      ></span>
+                      <input
+                        type="range"
+                        min="0"
+                        max="359"
+                        step="1"
+                        value={inkHueFilter}
+                        onChange={(e) => setInkHueFilter(parseInt(e.target.value, 10))}
+                        disabled={isLoading}
+                        className="w-full h-1.5 bg-surface rounded-lg appearance-none cursor-pointer accent-purple-500 hover:accent-purple-400"
+                      />
+                      <span className="font-mono text-xs text-white w-8 text-right">{inkHueFilter}°</span>
+                    </div>
+                  )}
+                </div>
+                <label className="text-xs text-secondary flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    checked={removeRuledLines}
+                    onChange={(e) => setRemoveRuledLines(e.target.checked)}
+                    disabled={isLoading}
+                    className="accent-purple-500 mt-0.5"
+                  />
+                  Remove Form Lines &amp; Boxes
+                </label>
+              </div>
+
               <div className="pt-2">
                 <label className="text-sm text-secondary mb-2 block">Manual AI Edit (Prompt)</label>
                 <div className="flex gap-2">
@@ -653,6 +1022,17 @@ function App() {
                              </div>
                          </div>
 
+                         <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+                           <input
+                             type="checkbox"
+                             checked={transparentPaper}
+                             onChange={(e) => { setTransparentPaper(e.target.checked); }}
+                             disabled={isAnimating}
+                             className="accent-primary"
+                           />
+                           Transparent paper
+                         </label>
+
                          <div>
                             <div className="flex justify-between text-xs text-gray-400 mb-1">
                                 <span className="flex items-center gap-1"><MoveVertical className="w-3 h-3" /> Thickness</span>
@@ -669,6 +1049,47 @@ function App() {
                                 className="w-full h-1.5 bg-surface rounded-lg appearance-none cursor-pointer accent-white hover:accent-gray-200"
                             />
                          </div>
+
+                         <div>
+                            <label className="text-[10px] text-gray-500 mb-1 block">Writing Tool</label>
+                            <div className="flex gap-2">
+                                <select
+                                    value={penTool}
+                                    onChange={(e) => { setPenTool(e.target.value as PenToolKind); }}
+                                    disabled={isAnimating}
+                                    className="flex-1 bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                                >
+                                    <option value="none">None</option>
+                                    <option value="ballpoint">Ballpoint</option>
+                                    <option value="fountain">Fountain Pen</option>
+                                    <option value="quill">Quill</option>
+                                    <option value="hand">Hand</option>
+                                    <option value="custom" disabled={!penImageSrc}>Custom PNG</option>
+                                </select>
+                                <label className={`text-xs px-2 py-1 rounded-lg border border-white/10 text-gray-300 hover:bg-white/5 ${isAnimating ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                                    Upload
+                                    <input
+                                        type="file"
+                                        accept="image/png"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            if (!file) return;
+                                            // Tip is the image's bottom-left corner
+                                            const reader = new FileReader();
+                                            reader.onload = () => {
+                                                if (typeof reader.result === 'string') {
+                                                    setPenImageSrc(reader.result);
+                                                    setPenTool('custom');
+                                                }
+                                            };
+                                            reader.readAsDataURL(file);
+                                            e.target.value = '';
+                                        }}
+                                    />
+                                </label>
+                            </div>
+                         </div>
                      </div>
 
                      <div className="space-y-3 border-l border-white/5 pl-4">
@@ -676,6 +1097,35 @@ function App() {
                              <Settings2 className="w-3 h-3" /> Physics
                          </div>
 
+                        <div className="bg-black/20 p-1 rounded-lg flex gap-1">
+                          {([['ms-per-px', 'Constant'], ['sigma-lognormal', 'Lognormal']] as [TimingModelName, string][]).map(([model, label]) => (
+                            <button
+                              key={model}
+                              onClick={() => setTimingModel(model)}
+                              disabled={isAnimating}
+                              title={model === 'sigma-lognormal' ? "Sigma-lognormal: slows into curves, speeds up on straight runs" : "Constant speed per pixel, slowed at corners by inertia"}
+                              className={`flex-1 py-1 px-2 rounded-md text-[10px] font-medium transition-all ${
+                                timingModel === model
+                                  ? 'bg-primary/30 text-white'
+                                  : 'text-secondary hover:bg-white/5 hover:text-white'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+
+                        <label className="flex items-center gap-1 text-xs text-gray-400 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={airStrokes}
+                            onChange={(e) => { setAirStrokes(e.target.checked); }}
+                            disabled={isAnimating}
+                            className="accent-primary"
+                          />
+                          Pen path in air
+                        </label>
+
                         <div>
                          <div className="flex justify-between text-xs text-gray-400 mb-1">
                           <span className="flex items-center gap-1">Inertia</span>
@@ -693,6 +1143,34 @@ function App() {
                         />
                        </div>
 
+                       <div>
+                         <div className="flex justify-between text-xs text-gray-400 mb-1">
+                          <label className="flex items-center gap-1 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={reslant}
+                              onChange={(e) => { setReslant(e.target.checked); }}
+                              disabled={isAnimating}
+                              className="accent-primary"
+                            />
+                            Re-slant
+                          </label>
+                          <span className="font-mono text-white">
+                            {activeItem?.analysis?.metadata.slant_deg !== undefined && `${activeItem.analysis.metadata.slant_deg.toFixed(0)}° → `}{slantAngle.toFixed(0)}°
+                          </span>
+                        </div>
+                        <input
+                          type="range"
+                          min="-20"
+                          max="40"
+                          step="1"
+                          value={slantAngle}
+                          onChange={(e) => { setSlantAngle(parseFloat(e.target.value)); }}
+                          disabled={isAnimating || !reslant}
+                          className="w-full h-1.5 bg-surface rounded-lg appearance-none cursor-pointer accent-primary hover:accent-primary/80 disabled:opacity-40"
+                        />
+                       </div>
+
                        <div>
                          <div className="flex justify-between text-xs text-gray-400 mb-1">
                           <span className="flex items-center gap-1"><Timer className="w-3 h-3"/> Duration</span>
@@ -738,6 +1216,21 @@ function App() {
                         {activeItem?.status === 'analyzing' && "Tracing Ink Geometry..."}
                         {activeItem?.status === 'editing' && "Applying Generative Edits..."}
                     </div>
+                    {activeItem?.status === 'analyzing' && (
+                        <div className="flex flex-col items-center gap-2 animate-none">
+                            {activeItem.progress && (
+                                <span className="text-xs text-gray-400">
+                                    {activeItem.progress.pixelsConsumed.toLocaleString()} / {activeItem.progress.totalPixels.toLocaleString()} ink px · {activeItem.progress.strokesFound} strokes
+                                </span>
+                            )}
+                            <button 
+                                onClick={() => handleCancelAnalysis(activeItem.id)}
+                                className="text-xs px-3 py-1 rounded-lg bg-white/5 hover:bg-red-500/20 text-gray-300 hover:text-red-300 border border-white/10 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    )}
                   </div>
                 ) : (
                   (activeItem) ? (
@@ -745,17 +1238,26 @@ function App() {
                       ref={animatorRef}
                       imageSrc={getActiveImage(activeItem)}
                       isAnimating={isAnimating}
+                      startAtMs={playheadMs}
                       soundEnabled={isSoundEnabled}
                       visualizeStrokeOrder={showStrokeOrder}
                       analysisData={activeItem.analysis}
                       preset={activePreset}
                       strokeColor={strokeColor}
                       bgColor={bgColor}
+                      transparentPaper={transparentPaper}
                       thicknessScale={thickness}
+                      reslant={reslant}
+                      timingModel={timingModel}
+                      airStrokes={airStrokes}
+                      penTool={penTool}
+                      penImageSrc={penImageSrc}
                       animationDuration={duration}
-                      onAnimationComplete={() => setIsAnimating(false)}
+                      onAnimationComplete={() => { setIsAnimating(false); setIsPaused(false); }}
                       onVideoGenerated={handleVideoGenerated}
+                      onExportError={handleExportError}
                       onExportProgress={setExportProgress}
+                      onTimeUpdate={setPlayheadMs}
                       className="w-full h-full min-h-[300px]"
                     />
                   ) : (
@@ -766,6 +1268,54 @@ function App() {
                   )
                 )}
               </div>
+
+              {activeItem?.analysis && !isLoading && (
+                <div className="mt-3 flex items-center gap-3 text-xs text-gray-400">
+                  <button
+                    onClick={handlePlayPause}
+                    disabled={isExporting}
+                    className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-white transition-colors disabled:opacity-50"
+                    title={isAnimating && !isPaused ? "Pause" : "Play"}
+                  >
+                    {isAnimating && !isPaused ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  {/* The plan is stretched to the duration setting, plus a second of hold at the end */}
+                  <input
+                    type="range"
+                    min="0"
+                    max={duration * 1000 + 1000}
+                    step="10"
+                    value={Math.min(playheadMs, duration * 1000 + 1000)}
+                    onChange={(e) => { handleSeek(parseFloat(e.target.value)); }}
+                    disabled={isExporting}
+                    className="flex-1 h-1.5 bg-surface rounded-lg appearance-none cursor-pointer accent-primary"
+                  />
+                  <span className="font-mono text-white w-14 text-right">{(playheadMs / 1000).toFixed(2)}s</span>
+                  <select
+                    value={playbackRate}
+                    onChange={(e) => { handlePlaybackRate(parseFloat(e.target.value)); }}
+                    disabled={isExporting}
+                    className="bg-surface border border-white/10 rounded-lg text-xs text-white px-2 py-1"
+                  >
+                    {[0.1, 0.25, 0.5, 1, 2].map(rate => (
+                      <option key={rate} value={rate}>{rate}x</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {exportError && (
+                <div className="mt-3 bg-red-500/10 border border-red-500/20 text-red-400 p-3 rounded-xl text-sm flex items-start gap-3 animate-in fade-in">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                  <div className="flex-1">
+                      <h4 className="font-semibold text-red-300 mb-1">Export Failed</h4>
+                      <p className="opacity-90">{exportError}</p>
+                  </div>
+                  <button onClick={() => setExportError(null)} className="p-1 hover:bg-red-500/20 rounded transition-colors text-red-300">
+                      <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
             </div>
             
             {activeItem?.analysis && (
@@ -792,6 +1342,8 @@ function App() {
                           <span>Preset:</span> <span className="text-right opacity-70">{PRESETS[selectedPresetKey].label}</span>
                           <span>Inertia:</span> <span className="text-right opacity-70">{inertiaFactor.toFixed(1)}x</span>
                           <span>Tremor:</span> <span className="text-right opacity-70">{tremorAmp.toFixed(2)}px</span>
+                          <span>Timing:</span> <span className="text-right opacity-70">{timingModel}</span>
+                          <span>Slant:</span> <span className="text-right opacity-70">{reslant ? `${slantAngle.toFixed(0)}°` : 'as traced'}</span>
                       </div>
                       <div className="mt-2 text-xs text-gray-400 italic border-t border-white/5 pt-2">
                           {activeItem.analysis.metadata.notes}
@@ -1,45 +1,91 @@
 
 import React, { useEffect, useRef, useLayoutEffect, forwardRef, useImperativeHandle } from 'react';
 import { SignatureAnalysis, HandwritingStyle } from '../types';
-import { AnimationEngine, ExportFormat } from '../services/animationEngine';
+import { AnimationEngine, ExportFormat, ExportSettings, FrameTiming } from '../services/animationEngine';
+import { TimingModelName } from '../services/timingModels';
+import { createPenSprite, PenSprite, PenToolKind } from '../services/penSprites';
+
+// Shows through where the paper is transparent
+const CHECKERBOARD = {
+  backgroundColor: '#ffffff',
+  backgroundImage: 'conic-gradient(#d4d4d8 25%, transparent 0 50%, #d4d4d8 0 75%, transparent 0)',
+  backgroundSize: '16px 16px'
+};
 
 interface CanvasAnimatorProps {
   imageSrc: string;
   isAnimating: boolean;
+  startAtMs?: number; // Playhead to start from when isAnimating turns on, e.g. after scrubbing while idle
   soundEnabled: boolean;
   visualizeStrokeOrder?: boolean;
   analysisData?: SignatureAnalysis | null;
   preset?: HandwritingStyle;
   strokeColor?: string;
   bgColor?: string;
+  transparentPaper?: boolean; // Clear instead of painting bgColor, for alpha exports
   thicknessScale?: number;
+  reslant?: boolean; // Shear to the preset's slant
+  timingModel?: TimingModelName;
+  airStrokes?: boolean; // Show the pen hovering between strokes
+  penTool?: PenToolKind;
+  penImageSrc?: string | null; // Uploaded sprite for penTool 'custom', tip at its bottom-left corner
   animationDuration?: number; // seconds
   onAnimationComplete?: () => void;
-  onVideoGenerated?: (url: string) => void;
+  onVideoGenerated?: (url: string, mimeType: string) => void;
   onExportProgress?: (progress: number) => void;
+  onTimeUpdate?: (timeMs: number) => void; // Playhead during playback and after seeks
+  onExportError?: (message: string) => void; // E.g. the browser can't encode the format, or the export was cancelled by a prop change
   className?: string;
 }
 
 export interface CanvasAnimatorHandle {
-    exportAnimation: (format: ExportFormat) => void;
+    exportAnimation: (format: ExportFormat, settings?: Partial<ExportSettings>) => void;
+    renderAt: (timeMs: number) => void;
+    pause: () => void;
+    resume: () => void;
+    seek: (timeMs: number) => void;
+    setPlaybackRate: (rate: number) => void;
+    getDuration: () => number;
+}
+
+// Debug: per-frame render times, and the full-redraw renderer for comparison. Dev builds only,
+// e.g. from the console: sigmontionDebug.setFrameTimingHook(t => console.log(t.renderMs))
+export interface CanvasAnimatorDebug {
+    setFrameTimingHook: (hook: ((timing: FrameTiming) => void) | null) => void;
+    setIncrementalRendering: (enabled: boolean) => void;
+}
+
+declare global {
+  interface Window {
+    sigmontionDebug?: CanvasAnimatorDebug;
+  }
 }
 
 export const CanvasAnimator = forwardRef<CanvasAnimatorHandle, CanvasAnimatorProps>(({
   imageSrc,
   isAnimating,
+  startAtMs = 0,
   soundEnabled,
   visualizeStrokeOrder = false,
   analysisData,
   preset,
   strokeColor = '#111111',
   bgColor = '#fdfbf7',
+  transparentPaper = false,
   thicknessScale = 1.0,
+  reslant = false,
+  timingModel = 'ms-per-px',
+  airStrokes = false,
+  penTool = 'none',
+  penImageSrc = null,
   animationDuration = 2.0,
   onAnimationComplete,
   onVideoGenerated,
   onExportProgress,
+  onTimeUpdate,
+  onExportError,
   className
-}, ref) => {
+}: CanvasAnimatorProps, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const engineRef = useRef<AnimationEngine | null>(null);
 
@@ -47,25 +93,90 @@ export const CanvasAnimator = forwardRef<CanvasAnimatorHandle, CanvasAnimatorPro
   const callbacksRef = useRef({
     onAnimationComplete,
     onVideoGenerated,
-    onExportProgress
+    onExportProgress,
+    onTimeUpdate,
+    onExportError
   });
 
   useEffect(() => {
     callbacksRef.current = {
       onAnimationComplete,
       onVideoGenerated,
-      onExportProgress
+      onExportProgress,
+      onTimeUpdate,
+      onExportError
     };
-  }, [onAnimationComplete, onVideoGenerated, onExportProgress]);
+  }, [onAnimationComplete, onVideoGenerated, onExportProgress, onTimeUpdate, onExportError]);
+
+  // Read when playback starts, so scrubbing doesn't re-create the engine
+  const startAtRef = useRef(startAtMs);
+  startAtRef.current = startAtMs;
+
+  // Survives engine re-creation so a chosen rate sticks across replays
+  const playbackRateRef = useRef(1);
+  const debugRef = useRef<{ frameTimingHook: ((timing: FrameTiming) => void) | null, incremental: boolean }>({
+    frameTimingHook: null,
+    incremental: true
+  });
 
   useImperativeHandle(ref, () => ({
-    exportAnimation: (format: ExportFormat) => {
+    exportAnimation: (format: ExportFormat, settings?: Partial<ExportSettings>) => {
         if (engineRef.current) {
+            if (settings) engineRef.current.setExportSettings(settings);
             engineRef.current.start(format);
         }
-    }
+    },
+    renderAt: (timeMs: number) => engineRef.current?.renderAt(timeMs),
+    pause: () => engineRef.current?.pause(),
+    resume: () => engineRef.current?.resume(),
+    seek: (timeMs: number) => engineRef.current?.seek(timeMs),
+    setPlaybackRate: (rate: number) => {
+        playbackRateRef.current = rate;
+        engineRef.current?.setPlaybackRate(rate);
+    },
+    getDuration: () => engineRef.current?.getDuration() ?? 0
   }));
 
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    const debug: CanvasAnimatorDebug = {
+      setFrameTimingHook: (hook) => {
+        debugRef.current.frameTimingHook = hook;
+        engineRef.current?.setFrameTimingHook(hook);
+      },
+      setIncrementalRendering: (enabled) => {
+        debugRef.current.incremental = enabled;
+        engineRef.current?.setIncrementalRendering(enabled);
+      }
+    };
+    window.sigmontionDebug = debug;
+    return () => {
+      if (window.sigmontionDebug === debug) delete window.sigmontionDebug;
+    };
+  }, []);
+
+  // Tool sprite, rebuilt when the tool changes (custom images load first)
+  const spriteRef = useRef<PenSprite | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    const apply = (sprite: PenSprite | null) => {
+      if (cancelled) return;
+      spriteRef.current = sprite;
+      engineRef.current?.setPenSprite(sprite);
+    };
+
+    const customSrc = penTool === 'custom' ? penImageSrc : null;
+    if (customSrc) {
+      const img = new Image();
+      img.onload = () => apply(createPenSprite('custom', img));
+      img.onerror = () => apply(null);
+      img.src = customSrc;
+    } else {
+      apply(createPenSprite(penTool));
+    }
+    return () => { cancelled = true; };
+  }, [penTool, penImageSrc]);
+
   // Update sound setting dynamically
   useEffect(() => {
     if (engineRef.current) {
@@ -115,15 +226,27 @@ export const CanvasAnimator = forwardRef<CanvasAnimatorHandle, CanvasAnimatorPro
          thicknessScale,
          animationDuration,
          () => callbacksRef.current.onAnimationComplete?.(),
-         (url) => callbacksRef.current.onVideoGenerated?.(url),
-         (p) => callbacksRef.current.onExportProgress?.(p)
+         (url, mimeType) => callbacksRef.current.onVideoGenerated?.(url, mimeType),
+         (p) => callbacksRef.current.onExportProgress?.(p),
+         {
+           onTimeUpdate: (t) => callbacksRef.current.onTimeUpdate?.(t),
+           onExportError: (message) => callbacksRef.current.onExportError?.(message)
+         }
        );
        
        engineRef.current.setSoundEnabled(soundEnabled);
+       engineRef.current.setTransparentPaper(transparentPaper);
+       engineRef.current.setReslant(reslant);
+       engineRef.current.setTimingModel(timingModel);
+       engineRef.current.setAirStrokes(airStrokes);
+       engineRef.current.setPenSprite(spriteRef.current);
+       engineRef.current.setPlaybackRate(playbackRateRef.current);
+       engineRef.current.setFrameTimingHook(debugRef.current.frameTimingHook);
+       engineRef.current.setIncrementalRendering(debugRef.current.incremental);
 
        // Decide what to do based on props
        if (isAnimating) {
-         engineRef.current.start();
+         engineRef.current.start(null, startAtRef.current);
        } else if (visualizeStrokeOrder) {
          engineRef.current.drawDebug();
        } else {
@@ -144,14 +267,14 @@ export const CanvasAnimator = forwardRef<CanvasAnimatorHandle, CanvasAnimatorPro
         engineRef.current = null;
       }
     };
-  }, [imageSrc, isAnimating, analysisData, preset, visualizeStrokeOrder, strokeColor, bgColor, thicknessScale, animationDuration]);
+  }, [imageSrc, isAnimating, analysisData, preset, visualizeStrokeOrder, strokeColor, bgColor, transparentPaper, thicknessScale, reslant, timingModel, airStrokes, animationDuration]);
 
   return (
     <div className={`relative flex items-center justify-center bg-white rounded-lg overflow-hidden shadow-lg ${className}`}>
       <canvas 
         ref={canvasRef} 
         className="max-w-full max-h-full"
-        style={{ backgroundColor: bgColor }} 
+        style={transparentPaper ? CHECKERBOARD : { backgroundColor: bgColor }} 
       />
     </div>
   );
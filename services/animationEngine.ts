@@ -1,14 +1,91 @@
 
-import { SignatureAnalysis, HandwritingStyle, StrokePath } from '../types';
-import { generateMotionPlan } from './motionPlanner';
-import { AudioSynth } from './audioSynth';
-import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { SignatureAnalysis, HandwritingStyle, PhysicsPoint, StrokePath } from '../types';
+import { generateMotionPlan, MotionPlanOptions } from './motionPlanner';
+import { TimingModelName } from './timingModels';
+import { PenSprite } from './penSprites';
+import { AudioSynth, SynthEnvelopePoint } from './audioSynth';
+import { quantize } from 'gifenc';
+import {
+  createApngEncoder,
+  createGifEncoder,
+  createMp4Encoder,
+  createPngSequenceEncoder,
+  createWebmAlphaEncoder,
+  FrameEncoder
+} from './frameEncoders';
+import { buildAnimatedSvg, SvgAnimationMode } from './svgExport';
+import { buildLottie } from './lottieExport';
+import { DEFAULT_EXPORT_SIZE, EXPORT_SIZE_PRESETS, FitMode, fitViewport, IDENTITY_VIEWPORT, inkBounds, NO_OVERHANG, spriteOverhang, Viewport } from './exportLayout';
 
-export type ExportFormat = 'mp4' | 'mp4-silent' | 'gif';
+export type ExportFormat = 'mp4' | 'mp4-silent' | 'gif' | 'svg' | 'lottie' | 'webm-alpha' | 'apng' | 'png-zip';
+
+// Formats that keep the canvas alpha, so transparent paper stays transparent. The rest
+// are drawn on the paper colour regardless
+const ALPHA_FORMATS: ExportFormat[] = ['webm-alpha', 'apng', 'png-zip', 'svg', 'lottie'];
+
+export interface ExportSettings {
+  fps: number;          // Frame rate of frame-stepped exports
+  videoBitrate: number; // MP4/WebM bits per second
+  svgAnimation: SvgAnimationMode;
+  outputSize: { width: number, height: number } | null; // Exported size, null for the on-screen canvas as shown
+  fit: FitMode;         // Placement in outputSize
+  padding: number;      // Margin in outputSize, as a fraction of its shorter side
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  fps: 30,
+  videoBitrate: 5_000_000,
+  svgAnimation: 'css',
+  outputSize: { width: EXPORT_SIZE_PRESETS[DEFAULT_EXPORT_SIZE].width, height: EXPORT_SIZE_PRESETS[DEFAULT_EXPORT_SIZE].height },
+  fit: 'contain',
+  padding: 0.08
+};
+
+// What one path contributed to a frame: whether the pen is on it right now, its speed and tip position
+type PathFrame = { moving: boolean, speed: number, pen?: { x: number, y: number }, heading?: number };
+
+// Hovering is nearly silent, just a faint brush of air
+const AIR_AUDIO_FACTOR = 0.2;
+
+// Tool overlay
+const SPRITE_SWAY = 0.3;        // rad, how far the tool turns with the stroke direction
+const SPRITE_SMOOTHING = 0.2;   // Per-frame approach to the target sway / lift
+const SPRITE_LIFT_PX = 10;
+const SPRITE_HEIGHT_FRACTION = 0.45; // Of the on-screen canvas height; exports keep the same share of the frame
+
+const TIME_UPDATE_MS = 100; // Playhead report interval for scrubbers
+const OFFLINE_YIELD_MS = 30; // Longest stretch an offline export holds the main thread
+const EXPORT_SAMPLE_RATE = 48000;
+
+// Offscreen layer holding the ink of finished segments, so a frame only draws what's new
+interface InkCache {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  committed: number[]; // Per path: segments already on the layer
+  time: number;        // Timeline position the layer is up to date with
+}
+
+// Per-frame render cost, for comparing the cached and full-redraw renderers
+export interface FrameTiming {
+  timeMs: number;     // Timeline position of the frame
+  renderMs: number;   // Wall time spent drawing it
+  incremental: boolean;
+}
+
+export interface AnimationEngineOptions {
+  // Playhead during playback and after seeks, throttled for scrubbers
+  onTimeUpdate?: (timeMs: number) => void;
+  // Exports that fail or are cancelled, with a message for the user
+  onExportError?: (message: string) => void;
+}
 
 export class AnimationEngine {
-  private canvas: HTMLCanvasElement;
+  private canvas: HTMLCanvasElement; // On screen; the plan is in its coordinates
+  private screenCtx: CanvasRenderingContext2D;
+  // Where frames are drawn: the on-screen canvas, or an export's own surface seen through a viewport
+  private surface: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
+  private view: Viewport = IDENTITY_VIEWPORT;
   private image: HTMLImageElement;
   private analysisData: SignatureAnalysis | null;
   private preset: HandwritingStyle | undefined;
@@ -20,20 +97,39 @@ export class AnimationEngine {
   private targetDuration: number;
 
   private onComplete?: () => void;
-  private onVideoGenerated?: (url: string) => void;
+  private onVideoGenerated?: (url: string, mimeType: string) => void;
   private onProgress?: (progress: number) => void;
+  private onTimeUpdate?: (timeMs: number) => void;
+  private onExportError?: (message: string) => void;
 
   private rafId: number | null = null;
-  private startTime: number = 0;
-  private mediaRecorder: MediaRecorder | null = null;
-  private recordedChunks: Blob[] = [];
-  private isRecording: boolean = false;
   
   private audioSynth: AudioSynth;
   private soundEnabled: boolean = false;
+  private transparentPaper: boolean = false;
+  private planOptions: MotionPlanOptions = {};
+  private penSprite: PenSprite | null = null;
+  private spriteAngle: number = 0;
+  private spriteSway: number = 0;
+  private spriteLift: number = 1;
+  private spriteSnap: boolean = true;
+
+  // Playback
+  private paths: StrokePath[] | null = null;
+  private animationEndTime: number = 2000;
+  private playhead: number = 0; // ms on the animation timeline
+  private playbackRate: number = 1;
+  private paused: boolean = false;
+  private lastFrameNow: number | null = null;
+  private frameLoop: ((now: number) => void) | null = null;
+
+  // Rendering
+  private incremental: boolean = true;
+  private inkCache: InkCache | null = null;
+  private frameTimingHook: ((timing: FrameTiming) => void) | null = null;
   private exportFormat: ExportFormat | null = null;
-  private gifEncoder: GIFEncoder | null = null;
-  private gifFrameDelay: number = 50; // ms
+  private exportSettings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS };
+  private exportRun: number = 0; // Bumped by stop() to cancel an offline export
   private palette: number[][] | null = null;
 
   constructor(
@@ -46,8 +142,9 @@ export class AnimationEngine {
     thicknessScale: number = 1.0,
     targetDuration: number = 2.0,
     onComplete?: () => void,
-    onVideoGenerated?: (url: string) => void,
-    onProgress?: (progress: number) => void
+    onVideoGenerated?: (url: string, mimeType: string) => void,
+    onProgress?: (progress: number) => void,
+    options: AnimationEngineOptions = {}
   ) {
     this.canvas = canvas;
     const context = canvas.getContext('2d', { 
@@ -55,6 +152,8 @@ export class AnimationEngine {
       desynchronized: false 
     });
     if (!context) throw new Error("Could not get canvas context");
+    this.surface = canvas;
+    this.screenCtx = context;
     this.ctx = context;
     this.image = image;
     this.analysisData = analysisData;
@@ -68,6 +167,8 @@ export class AnimationEngine {
     this.onComplete = onComplete;
     this.onVideoGenerated = onVideoGenerated;
     this.onProgress = onProgress;
+    this.onTimeUpdate = options.onTimeUpdate;
+    this.onExportError = options.onExportError;
     
     this.audioSynth = new AudioSynth();
   }
@@ -92,6 +193,53 @@ export class AnimationEngine {
     this.soundEnabled = enabled;
   }
 
+  // Shear to the preset's slant_angle_deg (takes effect on the next draw)
+  public setReslant(enabled: boolean) {
+    this.planOptions = { ...this.planOptions, reslant: enabled };
+  }
+
+  public setTimingModel(model: TimingModelName) {
+    this.planOptions = { ...this.planOptions, timingModel: model };
+  }
+
+  // Show the pen hovering between strokes (and its cursor)
+  public setAirStrokes(enabled: boolean) {
+    this.planOptions = { ...this.planOptions, airStrokes: enabled };
+  }
+
+  // Leave the paper out: the canvas is cleared instead of painted, and alpha formats keep it
+  public setTransparentPaper(enabled: boolean) {
+    this.transparentPaper = enabled;
+    this.inkCache = null;
+  }
+
+  public setExportSettings(settings: Partial<ExportSettings>) {
+    const next = { ...this.exportSettings, ...settings };
+    if (!(next.fps > 0) || !Number.isFinite(next.fps)) throw new Error(`Invalid export frame rate ${next.fps}`);
+    if (!(next.videoBitrate > 0)) throw new Error(`Invalid video bitrate ${next.videoBitrate}`);
+    if (next.outputSize && !(next.outputSize.width >= 16 && next.outputSize.height >= 16)) {
+      throw new Error(`Invalid export size ${next.outputSize.width}×${next.outputSize.height}`);
+    }
+    if (!(next.padding >= 0 && next.padding < 0.5)) throw new Error(`Invalid export padding ${next.padding}`);
+    this.exportSettings = next;
+  }
+
+  // Debug: false redraws every segment each frame (the pre-cache renderer), for before/after timings
+  public setIncrementalRendering(enabled: boolean) {
+    this.incremental = enabled;
+    this.inkCache = null;
+  }
+
+  // Debug: called after every animation frame with its render time
+  public setFrameTimingHook(hook: ((timing: FrameTiming) => void) | null) {
+    this.frameTimingHook = hook;
+  }
+
+  // Writing tool drawn over the tip during playback and exports, null for ink only
+  public setPenSprite(sprite: PenSprite | null) {
+    this.penSprite = sprite;
+  }
+
   private precomputePalette() {
     if (!this.strokeColor || !this.bgColor) return;
     
@@ -110,6 +258,19 @@ export class AnimationEngine {
           Math.round(bg.b + (ink.b - bg.b) * t)
        ]);
     }
+
+    // The tool overlay is in every frame, give its colours palette slots too
+    if (this.penSprite) {
+      const { image } = this.penSprite;
+      const spriteData = image.getContext('2d')?.getImageData(0, 0, image.width, image.height).data;
+      if (spriteData) {
+        const opaque: number[] = [];
+        for (let i = 0; i < spriteData.length; i += 4) {
+          if (spriteData[i + 3] > 128) opaque.push(spriteData[i], spriteData[i + 1], spriteData[i + 2], 255);
+        }
+        if (opaque.length > 0) p.push(...quantize(new Uint8ClampedArray(opaque), 128));
+      }
+    }
     this.palette = p;
   }
 
@@ -128,14 +289,27 @@ export class AnimationEngine {
           this.analysisData, 
           this.canvas.width, 
           this.canvas.height, 
-          this.preset
+          this.preset,
+          this.planOptions
         );
         
         this.ctx.save();
         this.ctx.lineCap = 'round';
         this.ctx.lineJoin = 'round';
 
-        paths.forEach((path, index) => {
+        // Hover paths as faint dashes under the numbered ink paths
+        this.ctx.setLineDash([4, 4]);
+        this.ctx.strokeStyle = 'rgba(120, 120, 120, 0.6)';
+        this.ctx.lineWidth = 1;
+        paths.filter(path => path.type === 'air').forEach(({ points }) => {
+            this.ctx.beginPath();
+            this.ctx.moveTo(points[0].x, points[0].y);
+            for (let i = 1; i < points.length; i++) this.ctx.lineTo(points[i].x, points[i].y);
+            this.ctx.stroke();
+        });
+        this.ctx.setLineDash([]);
+
+        paths.filter(path => path.type !== 'air').forEach((path, index) => {
             const { points } = path;
             if (points.length < 2) return;
             
@@ -189,7 +363,8 @@ export class AnimationEngine {
           this.analysisData, 
           this.canvas.width, 
           this.canvas.height, 
-          this.preset
+          this.preset,
+          this.planOptions
         );
         this.ctx.lineCap = 'round';
         this.ctx.lineJoin = 'round';
@@ -216,10 +391,9 @@ export class AnimationEngine {
     }
   }
 
-  // Allow triggering a specific export format
-  public start(exportFormat: ExportFormat | null = null) {
-    this.stop();
-    this.exportFormat = exportFormat;
+  // Helper: Motion plan stretched to the target duration. Built once per engine
+  private ensurePlan(): StrokePath[] {
+    if (this.paths) return this.paths;
 
     let paths: StrokePath[] = [];
     if (this.analysisData && this.analysisData.strokes) {
@@ -228,9 +402,11 @@ export class AnimationEngine {
           this.analysisData, 
           this.canvas.width, 
           this.canvas.height, 
-          this.preset
+          this.preset,
+          this.planOptions
         );
       } catch (e) {
+        console.warn("Motion plan generation failed", e);
         paths = [];
       }
     }
@@ -249,66 +425,72 @@ export class AnimationEngine {
         }
     }
 
-    const animationEndTime = paths.length > 0 ? paths[paths.length - 1].endTime : 2000;
-    const loopDuration = animationEndTime + 1000;
+    this.paths = paths;
+    this.animationEndTime = paths.length > 0 ? paths[paths.length - 1].endTime : 2000;
+    return paths;
+  }
+
+  // Length of a playback run (ms): the writing plus a second of hold at the end
+  public getDuration(): number {
+    this.ensurePlan();
+    return this.animationEndTime + 1000;
+  }
+
+  public getCurrentTime(): number {
+    return this.playhead;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Allow triggering a specific export format. Playback begins at fromMs, or over from the start once it has played out
+  public start(exportFormat: ExportFormat | null = null, fromMs = 0) {
+    this.stop();
+    this.exportFormat = exportFormat;
+
+    // Vector output comes straight from the plan
+    if (exportFormat === 'svg' || exportFormat === 'lottie') {
+        this.exportVector(exportFormat);
+        return;
+    }
+
+    // Other exports are frame-stepped and never touch the live loop
+    if (exportFormat) {
+        this.renderOffline(exportFormat);
+        return;
+    }
+
+    const loopDuration = this.getDuration();
 
     this.fillBackground();
 
     // Start Audio
-    if (this.soundEnabled || exportFormat === 'mp4') {
+    if (this.soundEnabled) {
         this.audioSynth.start();
     }
 
-    // Initialize Recording
-    if (exportFormat === 'mp4' || exportFormat === 'mp4-silent') {
-        this.setupVideoRecording(exportFormat === 'mp4'); // Pass true if audio needed
-        setTimeout(() => this.startVideoRecording(), 50);
-    } else if (exportFormat === 'gif') {
-        this.precomputePalette();
-        this.setupGifRecording();
-    }
-
-    this.startTime = performance.now();
-    let lastGifCapture = 0;
+    this.playhead = fromMs < loopDuration ? Math.max(0, fromMs) : 0;
+    this.lastFrameNow = null;
+    this.inkCache = null;
+    this.resetSprite();
+    let lastTimeUpdate = -Infinity;
     
     const loop = (now: number) => {
-      const elapsed = now - this.startTime;
+      if (this.lastFrameNow !== null) this.playhead += (now - this.lastFrameNow) * this.playbackRate;
+      this.lastFrameNow = now;
+      const elapsed = Math.min(this.playhead, loopDuration);
 
-      // Report progress (only during export to prevent excessive re-renders)
-      if (this.onProgress && this.exportFormat && loopDuration > 0) {
-        const p = Math.min(100, Math.round((elapsed / loopDuration) * 100));
-        this.onProgress(p);
+      // Playhead for scrubbers, throttled to prevent excessive re-renders
+      if (this.onTimeUpdate && (elapsed - lastTimeUpdate >= TIME_UPDATE_MS || elapsed < lastTimeUpdate || elapsed >= loopDuration)) {
+        this.onTimeUpdate(elapsed);
+        lastTimeUpdate = elapsed;
       }
 
-      this.fillBackground();
-      this.setupContextDefaults();
-      this.setupShadows();
-
-      let isMoving = false;
-      let currentSpeed = 0;
-
-      if (paths.length > 0) {
-        paths.forEach(path => {
-          if (elapsed >= path.startTime) {
-             const { moving, speed } = this.drawPath(path, elapsed);
-             if (moving) {
-               isMoving = true;
-               currentSpeed = speed;
-             }
-          }
-        });
-      } else {
-        const progress = Math.min(1, elapsed / 2000);
-        this.ctx.save();
-        this.ctx.beginPath();
-        this.ctx.rect(0, 0, this.canvas.width * progress, this.canvas.height);
-        this.ctx.clip();
-        this.ctx.drawImage(this.image, 0, 0, this.canvas.width, this.canvas.height);
-        this.ctx.restore();
-      }
+      const { isMoving, currentSpeed } = this.renderFrame(elapsed);
 
       // Audio Modulation
-      if (this.soundEnabled || exportFormat === 'mp4') {
+      if (this.soundEnabled) {
          if (isMoving) {
              this.audioSynth.setIntensity(currentSpeed || 1);
          } else {
@@ -316,206 +498,548 @@ export class AnimationEngine {
          }
       }
 
-      // GIF Capture
-      if (exportFormat === 'gif') {
-         if (elapsed - lastGifCapture > this.gifFrameDelay) {
-             this.captureGifFrame();
-             lastGifCapture = elapsed;
-         }
-      }
-
       if (elapsed < loopDuration) {
         this.rafId = requestAnimationFrame(loop);
       } else {
+        this.frameLoop = null;
         this.finish();
       }
     };
 
+    this.frameLoop = loop;
     this.rafId = requestAnimationFrame(loop);
   }
 
+  // Freeze playback on the current frame. Exports can't be paused
+  public pause() {
+    if (this.paused || !this.frameLoop || this.exportFormat) return;
+    if (this.rafId) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.paused = true;
+    this.lastFrameNow = null;
+    this.audioSynth.silence();
+  }
+
+  public resume() {
+    if (!this.paused || !this.frameLoop) return;
+    this.paused = false;
+    this.rafId = requestAnimationFrame(this.frameLoop);
+  }
+
+  // Move the playhead. A running animation carries on from there, a paused or idle one shows that frame
+  public seek(timeMs: number) {
+    if (this.exportFormat) return;
+    this.playhead = Math.max(0, Math.min(this.getDuration(), timeMs));
+    this.resetSprite();
+    if (!this.frameLoop || this.paused) {
+      this.renderAt(this.playhead);
+      this.onTimeUpdate?.(this.playhead);
+    }
+  }
+
+  public setPlaybackRate(rate: number) {
+    if (rate > 0 && Number.isFinite(rate)) this.playbackRate = rate;
+  }
+
+  // Draw the frame at timeMs (ms from the start of the writing) without touching playback
+  public renderAt(timeMs: number) {
+    if (this.exportFormat) return;
+    this.ensurePlan();
+    this.renderFrame(Math.max(0, timeMs));
+  }
+
+  private renderFrame(elapsed: number): { isMoving: boolean, currentSpeed: number } {
+    const frameStart = performance.now();
+    const paths = this.ensurePlan();
+
+    this.fillBackground();
+    this.setupContextDefaults();
+    this.setupShadows();
+
+    let isMoving = false;
+    let currentSpeed = 0;
+
+    if (paths.length > 0) {
+      const cache = this.incremental ? this.getInkCache(elapsed) : undefined;
+      if (cache) {
+        // The layer already carries its shadows
+        this.ctx.save();
+        this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+        this.ctx.shadowBlur = 0;
+        this.ctx.shadowColor = 'transparent';
+        this.ctx.drawImage(cache.canvas, 0, 0);
+        this.ctx.restore();
+      }
+
+      // Pen starts hovering over the first point, then stays with the latest path it touched
+      let penTip: { x: number, y: number, inAir: boolean, heading?: number } =
+        { x: paths[0].points[0].x, y: paths[0].points[0].y, inAir: true };
+
+      paths.forEach((path, index) => {
+        if (elapsed >= path.startTime) {
+           const { moving, speed, pen, heading } = this.drawPath(path, elapsed, cache, index);
+           if (moving) {
+             isMoving = true;
+             currentSpeed = speed;
+           }
+           if (pen) penTip = { ...pen, inAir: path.type === 'air', heading };
+        }
+      });
+      if (this.penSprite) {
+        this.drawPenSprite(this.penSprite, penTip, isMoving && !penTip.inAir);
+      } else if (this.planOptions.airStrokes && elapsed < this.animationEndTime) {
+        this.drawPenCursor(penTip.x, penTip.y, penTip.inAir);
+      }
+    } else {
+      const progress = Math.min(1, elapsed / 2000);
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.rect(0, 0, this.canvas.width * progress, this.canvas.height);
+      this.ctx.clip();
+      this.ctx.drawImage(this.image, 0, 0, this.canvas.width, this.canvas.height);
+      this.ctx.restore();
+    }
+
+    this.frameTimingHook?.({ timeMs: elapsed, renderMs: performance.now() - frameStart, incremental: this.incremental });
+    return { isMoving, currentSpeed };
+  }
+
+  // Helper: Ink layer up to date with `elapsed`. Rebuilt from scratch on a resize or a jump backwards
+  private getInkCache(elapsed: number): InkCache {
+    const { width, height } = this.surface;
+    let cache = this.inkCache;
+    if (!cache || cache.canvas.width !== width || cache.canvas.height !== height || elapsed < cache.time) {
+      const canvas = cache && cache.canvas.width === width && cache.canvas.height === height
+        ? cache.canvas
+        : Object.assign(document.createElement('canvas'), { width, height });
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Could not get canvas context");
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      this.applyView(ctx);
+      this.setupContextDefaults(ctx);
+      this.setupShadows(ctx);
+      cache = { canvas, ctx, committed: [], time: 0 };
+      this.inkCache = cache;
+    }
+    cache.time = elapsed;
+    return cache;
+  }
+
   public stop() {
     if (this.rafId) {
       cancelAnimationFrame(this.rafId);
       this.rafId = null;
     }
-    this.stopVideoRecording();
+    this.frameLoop = null;
+    this.paused = false;
+    // An export still running is abandoned, tell the caller so its progress UI can reset.
+    // Mid-export this only happens when the animator is rebuilt, e.g. a setting changed.
+    const cancelled = this.exportFormat !== null;
+    this.exportRun++;
+    this.exportFormat = null;
+    this.useScreen();
     this.audioSynth.stop();
+    if (cancelled) this.onExportError?.("Export cancelled: the animation settings changed while it was exporting.");
   }
 
   private finish() {
-    this.stopVideoRecording();
-    if (this.exportFormat === 'gif') {
-        this.finishGifRecording();
-    }
     this.audioSynth.stop();
     this.exportFormat = null;
     this.palette = null;
     if (this.onComplete) this.onComplete();
   }
 
+  // Paints the whole surface, then leaves the context in plan coordinates
   private fillBackground() {
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
     this.ctx.globalCompositeOperation = 'source-over';
     this.ctx.globalAlpha = 1.0;
-    this.ctx.fillStyle = this.bgColor; 
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    if (this.isPaperTransparent()) {
+      this.ctx.clearRect(0, 0, this.surface.width, this.surface.height);
+    } else {
+      this.ctx.fillStyle = this.bgColor; 
+      this.ctx.fillRect(0, 0, this.surface.width, this.surface.height);
+    }
+    this.applyView(this.ctx);
+  }
+
+  private applyView(ctx: CanvasRenderingContext2D) {
+    const { scale, x, y } = this.view;
+    ctx.setTransform(scale, 0, 0, scale, x, y);
+  }
+
+  private useScreen() {
+    this.surface = this.canvas;
+    this.ctx = this.screenCtx;
+    this.view = IDENTITY_VIEWPORT;
+    this.inkCache = null;
   }
 
-  private setupContextDefaults() {
-    this.ctx.lineCap = 'round';
-    this.ctx.lineJoin = 'round';
+  private isPaperTransparent() {
+    return this.transparentPaper && (!this.exportFormat || ALPHA_FORMATS.includes(this.exportFormat));
   }
 
-  private setupShadows() {
+  private setupContextDefaults(ctx: CanvasRenderingContext2D = this.ctx) {
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+  }
+
+  private setupShadows(ctx: CanvasRenderingContext2D = this.ctx) {
     if (this.preset && (this.preset.ink_spread === 'medium' || this.preset.ink_spread === 'heavy')) {
       const { r, g, b } = this.hexToRgb(this.strokeColor);
-      this.ctx.shadowBlur = this.preset.ink_spread === 'heavy' ? 2 : 1;
-      this.ctx.shadowColor = `rgba(${r}, ${g}, ${b}, 0.4)`;
+      ctx.shadowBlur = this.preset.ink_spread === 'heavy' ? 2 : 1;
+      ctx.shadowColor = `rgba(${r}, ${g}, ${b}, 0.4)`;
     } else {
-      this.ctx.shadowBlur = 0;
-      this.ctx.shadowColor = 'transparent';
+      ctx.shadowBlur = 0;
+      ctx.shadowColor = 'transparent';
     }
   }
 
-  private drawPath(path: StrokePath, elapsedTime: number): { moving: boolean, speed: number } {
+  // With a cache, finished segments are committed to the ink layer once and only the
+  // leading segment is drawn on the canvas
+  private drawPath(path: StrokePath, elapsedTime: number, cache?: InkCache, index: number = 0): PathFrame {
     const { points } = path;
     if (!points || points.length < 2) return { moving: false, speed: 0 };
+    if (path.type === 'dot') return this.drawDot(path, elapsedTime, cache, index);
+    if (path.type === 'air') return this.traceAir(path, elapsedTime);
 
     const { r, g, b } = this.hexToRgb(this.strokeColor);
     let moving = false;
     let speed = 0;
+    let pen: { x: number, y: number } | undefined;
+    let heading: number | undefined;
+    // Overshoot segments fade along their length instead of using a flat opacity
+    const isTail = (i: number) => path.tailStart !== undefined && i >= path.tailStart;
 
     // Fast static render
     if (elapsedTime >= Number.MAX_SAFE_INTEGER) {
         for (let i = 0; i < points.length - 1; i++) {
-           const p1 = points[i];
            const p2 = points[i+1];
-           this.ctx.beginPath();
-           this.ctx.moveTo(p1.x, p1.y);
-           this.ctx.lineTo(p2.x, p2.y);
-           this.ctx.lineWidth = p1.lineWidth * this.thicknessScale;
-           this.ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${p1.opacity})`;
-           this.ctx.stroke();
+           this.strokeSegment(this.ctx, points[i], p2.x, p2.y, p2.opacity, isTail(i), r, g, b);
         }
         return { moving: false, speed: 0 };
     }
 
     // Animated variable width render
-    for (let i = 0; i < points.length - 1; i++) {
+    for (let i = cache?.committed[index] ?? 0; i < points.length - 1; i++) {
       const p1 = points[i];
       const p2 = points[i+1];
 
       if (p1.time > elapsedTime) break;
 
-      let targetX = p2.x;
-      let targetY = p2.y;
-      const isLeadingSegment = p2.time > elapsedTime;
-
-      if (isLeadingSegment) {
-        const segDuration = p2.time - p1.time;
-        const progress = segDuration > 0.001 ? (elapsedTime - p1.time) / segDuration : 1;
-        targetX = p1.x + (p2.x - p1.x) * progress;
-        targetY = p1.y + (p2.y - p1.y) * progress;
-        
-        moving = true;
-        const dist = Math.sqrt((p2.x-p1.x)**2 + (p2.y-p1.y)**2);
-        speed = dist / (segDuration || 1); // pixels per ms
+      if (p2.time <= elapsedTime) {
+        this.strokeSegment(cache ? cache.ctx : this.ctx, p1, p2.x, p2.y, p2.opacity, isTail(i), r, g, b);
+        if (cache) cache.committed[index] = i + 1;
+        continue;
       }
 
-      this.ctx.beginPath();
-      this.ctx.moveTo(p1.x, p1.y);
-      this.ctx.lineTo(targetX, targetY);
-      this.ctx.lineWidth = p1.lineWidth * this.thicknessScale; 
-      this.ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${p1.opacity})`;
-      this.ctx.stroke();
+      // Leading segment
+      const segDuration = p2.time - p1.time;
+      const progress = segDuration > 0.001 ? (elapsedTime - p1.time) / segDuration : 1;
+      const targetX = p1.x + (p2.x - p1.x) * progress;
+      const targetY = p1.y + (p2.y - p1.y) * progress;
+      const targetOpacity = p1.opacity + (p2.opacity - p1.opacity) * progress;
+      this.strokeSegment(this.ctx, p1, targetX, targetY, targetOpacity, isTail(i), r, g, b);
 
-      if (isLeadingSegment) break;
+      moving = true;
+      pen = { x: targetX, y: targetY };
+      heading = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+      const dist = Math.sqrt((p2.x-p1.x)**2 + (p2.y-p1.y)**2);
+      speed = dist / (segDuration || 1); // pixels per ms
+      break;
     }
     
-    return { moving, speed: speed * 10 }; // Scale speed up for synthesis
+    // Pen resting at the end of a finished stroke
+    if (!pen && elapsedTime >= path.endTime) pen = { x: points[points.length - 1].x, y: points[points.length - 1].y };
+    return { moving, speed: speed * 10, pen, heading }; // Scale speed up for synthesis
   }
 
-  // --- MP4 Recording ---
-  private setupVideoRecording(withAudio: boolean) {
-    try {
-      // @ts-ignore
-      const canvasStream = this.canvas.captureStream(60) as MediaStream;
-      const tracks = [...canvasStream.getVideoTracks()];
-      
-      if (withAudio && this.audioSynth.destination) {
-         const audioTracks = this.audioSynth.destination.stream.getAudioTracks();
-         if (audioTracks.length > 0) {
-             tracks.push(audioTracks[0]);
-         }
-      }
+  // One segment from p1 towards (x, y), at p1's width
+  private strokeSegment(
+    ctx: CanvasRenderingContext2D,
+    p1: PhysicsPoint,
+    x: number,
+    y: number,
+    opacity: number,
+    fade: boolean,
+    r: number, g: number, b: number
+  ) {
+    ctx.beginPath();
+    ctx.moveTo(p1.x, p1.y);
+    ctx.lineTo(x, y);
+    ctx.lineWidth = p1.lineWidth * this.thicknessScale;
+    ctx.strokeStyle = fade
+      ? this.fadeGradient(ctx, p1, x, y, opacity, r, g, b)
+      : `rgba(${r}, ${g}, ${b}, ${p1.opacity})`;
+    ctx.stroke();
+  }
 
-      const combinedStream = new MediaStream(tracks);
-      
-      this.recordedChunks = [];
-      const mimeType = MediaRecorder.isTypeSupported('video/mp4; codecs=avc1.42E01E,mp4a.40.2')
-        ? 'video/mp4; codecs=avc1.42E01E,mp4a.40.2'
-        : 'video/webm';
-      
-      this.mediaRecorder = new MediaRecorder(combinedStream, { mimeType });
-      this.mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) this.recordedChunks.push(e.data);
-      };
-      this.mediaRecorder.onstop = () => {
-        const blob = new Blob(this.recordedChunks, { type: mimeType });
-        const url = URL.createObjectURL(blob);
-        if (this.onVideoGenerated) this.onVideoGenerated(url);
+  // Pen hovering between strokes: follows the path without leaving ink
+  private traceAir(path: StrokePath, elapsedTime: number): PathFrame {
+    const { points } = path;
+    if (elapsedTime >= path.endTime) {
+      const last = points[points.length - 1];
+      return { moving: false, speed: 0, pen: { x: last.x, y: last.y } };
+    }
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const p1 = points[i];
+      const p2 = points[i+1];
+      if (p2.time <= elapsedTime) continue;
+
+      const segDuration = p2.time - p1.time;
+      const progress = segDuration > 0.001 ? Math.max(0, (elapsedTime - p1.time) / segDuration) : 1;
+      const dist = Math.sqrt((p2.x-p1.x)**2 + (p2.y-p1.y)**2);
+      return {
+        moving: true,
+        speed: (dist / (segDuration || 1)) * 10 * AIR_AUDIO_FACTOR,
+        pen: { x: p1.x + (p2.x - p1.x) * progress, y: p1.y + (p2.y - p1.y) * progress },
+        heading: Math.atan2(p2.y - p1.y, p2.x - p1.x)
       };
-    } catch (e) { console.warn("Rec failed", e); }
+    }
+    return { moving: false, speed: 0 };
   }
 
-  private startVideoRecording() {
-    if (this.mediaRecorder && this.mediaRecorder.state === 'inactive') {
-        this.mediaRecorder.start();
-        this.isRecording = true;
-    }
+  private resetSprite() {
+    this.spriteSway = 0;
+    this.spriteSnap = true;
   }
 
-  private stopVideoRecording() {
-    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
-      this.mediaRecorder.stop();
-    }
-    this.isRecording = false;
+  // Tool overlay: the sprite sits on the tip, turns a little with the stroke direction and
+  // lifts off the paper between strokes
+  private drawPenSprite(sprite: PenSprite, tip: { x: number, y: number, heading?: number }, onPaper: boolean) {
+    if (tip.heading !== undefined) this.spriteSway = SPRITE_SWAY * Math.sin(tip.heading);
+    // Jumps (start, seek) land directly on the target pose
+    const smoothing = this.spriteSnap ? 1 : SPRITE_SMOOTHING;
+    this.spriteSnap = false;
+    this.spriteAngle += (this.spriteSway - this.spriteAngle) * smoothing;
+    this.spriteLift += ((onPaper ? 0 : 1) - this.spriteLift) * smoothing;
+
+    const { image, tipX, tipY } = sprite;
+    const px = this.overlayPx();
+    const scale = (this.spriteHeight(this.canvas.height) * px) / image.height;
+    const lift = this.spriteLift * SPRITE_LIFT_PX * px;
+
+    this.ctx.save();
+    this.ctx.shadowBlur = 0;
+    this.ctx.shadowColor = 'transparent';
+    this.ctx.globalAlpha = 1.0;
+
+    // Contact shadow, spreading and fading as the tool lifts
+    this.ctx.beginPath();
+    this.ctx.ellipse(tip.x + lift * 0.6, tip.y, 3 * px + lift * 0.4, 1.5 * px + lift * 0.2, 0, 0, Math.PI * 2);
+    this.ctx.fillStyle = `rgba(0, 0, 0, ${0.25 - 0.15 * this.spriteLift})`;
+    this.ctx.fill();
+
+    this.ctx.translate(tip.x, tip.y - lift);
+    this.ctx.rotate(this.spriteAngle);
+    this.ctx.drawImage(image, -tipX * scale, -tipY * scale, image.width * scale, image.height * scale);
+    this.ctx.restore();
   }
 
-  // --- GIF Recording ---
-  private setupGifRecording() {
-    this.gifEncoder = GIFEncoder();
+  // Helper: Plan units per on-screen pixel of the overlays (sprite, cursor). They keep their
+  // share of the frame in exports, however far the viewport zooms into the ink
+  private overlayPx() {
+    return this.surface.height / this.canvas.height / this.view.scale;
   }
 
-  private captureGifFrame() {
-    if (!this.gifEncoder) return;
-    const { width, height } = this.canvas;
-    const imageData = this.ctx.getImageData(0, 0, width, height);
-    
-    // Use precomputed palette if available (Major Optimization), else quantize
-    let palette = this.palette;
-    let index: Uint8Array;
-    
-    if (palette) {
-        index = applyPalette(imageData.data, palette);
+  // Helper: Pen sprite height in px on a surface of the given height
+  private spriteHeight(surfaceHeight: number) {
+    const onScreen = Math.max(64, Math.min(240, this.canvas.height * SPRITE_HEIGHT_FRACTION));
+    return (onScreen * surfaceHeight) / this.canvas.height;
+  }
+
+  // Pen position marker: a solid tip on paper, a hollow ring while hovering
+  private drawPenCursor(x: number, y: number, inAir: boolean) {
+    const { r, g, b } = this.hexToRgb(this.strokeColor);
+    const px = this.overlayPx();
+    this.ctx.save();
+    this.ctx.shadowBlur = 0;
+    this.ctx.shadowColor = 'transparent';
+    this.ctx.beginPath();
+    this.ctx.arc(x, y, (inAir ? 5 : 3) * px, 0, Math.PI * 2);
+    if (inAir) {
+      this.ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, 0.5)`;
+      this.ctx.lineWidth = 1.5 * px;
+      this.ctx.stroke();
     } else {
-        palette = quantize(imageData.data, 256);
-        index = applyPalette(imageData.data, palette);
+      this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.8)`;
+      this.ctx.fill();
     }
+    this.ctx.restore();
+  }
+
+  // Opacity ramp along one segment, from p1 to (x, y)
+  private fadeGradient(ctx: CanvasRenderingContext2D, p1: PhysicsPoint, x: number, y: number, opacity: number, r: number, g: number, b: number): CanvasGradient {
+    const gradient = ctx.createLinearGradient(p1.x, p1.y, x, y);
+    gradient.addColorStop(0, `rgba(${r}, ${g}, ${b}, ${p1.opacity})`);
+    gradient.addColorStop(1, `rgba(${r}, ${g}, ${b}, ${Math.max(0, opacity)})`);
+    return gradient;
+  }
+
+  // Pen tap: the ink blot spreads out while the pen is down
+  private drawDot(path: StrokePath, elapsedTime: number, cache?: InkCache, index: number = 0): PathFrame {
+    const [p] = path.points;
+    const duration = path.endTime - path.startTime;
+    const progress = duration > 0 ? Math.min(1, (elapsedTime - path.startTime) / duration) : 1;
+    if (progress < 0) return { moving: false, speed: 0 };
+    if (cache?.committed[index]) return { moving: false, speed: 0, pen: { x: p.x, y: p.y } };
 
-    this.gifEncoder.writeFrame(index, width, height, { 
-        palette, 
-        delay: this.gifFrameDelay 
+    const { r, g, b } = this.hexToRgb(this.strokeColor);
+    const radius = (p.lineWidth * this.thicknessScale / 2) * (0.5 + 0.5 * progress);
+
+    // A finished tap goes onto the ink layer for good
+    const ctx = cache && progress >= 1 ? cache.ctx : this.ctx;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, Math.max(0.5, radius), 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${p.opacity})`;
+    ctx.fill();
+    if (cache && progress >= 1) cache.committed[index] = 1;
+
+    // A short, soft burst of paper noise for the tap itself
+    const moving = progress < 1;
+    return { moving, speed: moving ? 2 : 0, pen: { x: p.x, y: p.y } };
+  }
+
+  // --- Vector Export ---
+  // SVG and Lottie are built from the plan, no frames are drawn
+  private exportVector(format: 'svg' | 'lottie') {
+    try {
+      const paths = this.ensurePlan();
+      if (paths.length === 0) throw new Error(`${format === 'svg' ? 'SVG' : 'Lottie'} export needs a traced signature. Analyze the image first.`);
+      const { width, height } = this.outputSize();
+      const style = {
+        width,
+        height,
+        view: this.exportViewport(width, height),
+        strokeColor: this.strokeColor,
+        bgColor: this.isPaperTransparent() ? null : this.bgColor,
+        thicknessScale: this.thicknessScale
+      };
+      const blob = format === 'svg'
+        ? new Blob([buildAnimatedSvg(paths, { ...style, mode: this.exportSettings.svgAnimation })], { type: 'image/svg+xml' })
+        : new Blob([JSON.stringify(buildLottie(paths, { ...style, fps: this.exportSettings.fps, durationMs: this.getDuration() }))], { type: 'application/json' });
+      this.onProgress?.(100);
+      this.onVideoGenerated?.(URL.createObjectURL(blob), blob.type);
+    } catch (e) {
+      console.warn("Export failed", e);
+      this.onExportError?.(e instanceof Error ? e.message : "Export failed");
+    }
+    this.finish();
+  }
+
+  // --- Export Layout ---
+  // Helper: Exported size in px. Even, as video codecs need
+  private outputSize() {
+    const size = this.exportSettings.outputSize ?? { width: this.canvas.width, height: this.canvas.height };
+    const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+    return { width: even(size.width), height: even(size.height) };
+  }
+
+  // Where the plan lands in an export of the given size. Without an output size the
+  // canvas is exported as shown. Fitting to the ink leaves room for the pen sprite, which
+  // is drawn at a fixed share of the frame
+  private exportViewport(width: number, height: number): Viewport {
+    const { outputSize, fit, padding } = this.exportSettings;
+    const screen = { x: 0, y: 0, width: this.canvas.width, height: this.canvas.height };
+    if (!outputSize) return fitViewport(screen, { width, height }, 'contain', 0);
+    if (fit === 'canvas') return fitViewport(screen, { width, height }, 'contain', padding);
+
+    const content = inkBounds(this.ensurePlan(), this.thicknessScale) ?? screen;
+    const overhang = this.penSprite
+      ? spriteOverhang(
+          { width: this.penSprite.image.width, height: this.penSprite.image.height, tipX: this.penSprite.tipX, tipY: this.penSprite.tipY },
+          this.spriteHeight(height),
+          SPRITE_SWAY,
+          (SPRITE_LIFT_PX * height) / this.canvas.height
+        )
+      : NO_OVERHANG;
+    return fitViewport(content, { width, height }, fit, padding, overhang);
+  }
+
+  // --- Offline Export ---
+
+  // Encoder for a format. Rejects when the browser can't produce it
+  private async createEncoder(format: ExportFormat, frameCount: number): Promise<FrameEncoder> {
+    if (format === 'gif') {
+      this.precomputePalette();
+      return createGifEncoder(this.palette);
+    }
+    if (format === 'apng') return createApngEncoder({ ...this.outputSize(), frameCount });
+    if (format === 'png-zip') return createPngSequenceEncoder();
+    const { fps, videoBitrate } = this.exportSettings;
+    if (format === 'webm-alpha') return createWebmAlphaEncoder({ ...this.outputSize(), fps, bitrate: videoBitrate });
+    return createMp4Encoder({
+      ...this.outputSize(),
+      fps,
+      bitrate: videoBitrate,
+      audioSampleRate: format === 'mp4' ? EXPORT_SAMPLE_RATE : undefined
     });
   }
 
-  private finishGifRecording() {
-    if (!this.gifEncoder) return;
-    this.gifEncoder.finish();
-    const buffer = this.gifEncoder.bytes();
-    const blob = new Blob([buffer], { type: 'image/gif' });
-    const url = URL.createObjectURL(blob);
-    if (this.onVideoGenerated) this.onVideoGenerated(url);
-    this.gifEncoder = null;
+  // Steps the timeline in fixed 1000/fps increments instead of following rAF, drawing each
+  // frame with renderFrame, so the same settings always give the same frames. Runs as fast
+  // as the encoder allows. The pen sound is rendered afterwards from the frames' velocities.
+  private async renderOffline(format: ExportFormat) {
+    const run = ++this.exportRun;
+    const { fps } = this.exportSettings;
+    const loopDuration = this.getDuration();
+    const frameCount = Math.max(1, Math.ceil((loopDuration * fps) / 1000 - 1e-6));
+
+    this.playhead = 0;
+    this.resetSprite();
+
+    try {
+      const encoder = await this.createEncoder(format, frameCount);
+      if (run !== this.exportRun) return;
+
+      // Frames are drawn at the export size, whatever the window layout
+      const { width, height } = this.outputSize();
+      const surface = Object.assign(document.createElement('canvas'), { width, height });
+      const ctx = surface.getContext('2d');
+      if (!ctx) throw new Error("Could not get canvas context");
+      this.surface = surface;
+      this.ctx = ctx;
+      this.view = this.exportViewport(width, height);
+      this.inkCache = null;
+
+      const envelope: SynthEnvelopePoint[] = [];
+      let lastYield = performance.now();
+      for (let i = 0; i < frameCount; i++) {
+        const t = (i * 1000) / fps;
+        this.playhead = t;
+        const { isMoving, currentSpeed } = this.renderFrame(t);
+        envelope.push({ timeMs: t, velocity: isMoving ? currentSpeed || 1 : 0 });
+        await encoder.addFrame(surface, t, 1000 / fps);
+        this.onProgress?.(Math.min(99, Math.round(((i + 1) / frameCount) * 100)));
+
+        // Let the page breathe (and stop() get in) now and then
+        if (performance.now() - lastYield > OFFLINE_YIELD_MS) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          lastYield = performance.now();
+        }
+        if (run !== this.exportRun) return;
+      }
+
+      if (encoder.addAudio) {
+        const audio = await AudioSynth.renderOffline(envelope, (frameCount * 1000) / fps, EXPORT_SAMPLE_RATE);
+        await encoder.addAudio(audio);
+      }
+      const blob = await encoder.finish();
+      if (run !== this.exportRun) return;
+      this.onProgress?.(100);
+      this.onVideoGenerated?.(URL.createObjectURL(blob), encoder.mimeType);
+    } catch (e) {
+      if (run !== this.exportRun) return;
+      console.warn("Export failed", e);
+      this.onExportError?.(e instanceof Error ? e.message : "Export failed");
+    }
+    if (run === this.exportRun) {
+      this.useScreen();
+      this.finish();
+    }
   }
 }
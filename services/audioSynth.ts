@@ -1,12 +1,59 @@
 
 
+// Paper-friction voice: velocity (roughly 0-5) to volume and band centre
+const volumeFor = (velocity: number) => Math.min(0.2, Math.max(0, velocity * 0.05)); // Clamp velocity to avoid blowing ears
+const frequencyFor = (velocity: number) => 300 + velocity * 100;
+const VOLUME_SMOOTHING_S = 0.05;
+const FREQUENCY_SMOOTHING_S = 0.1;
+
+// Pen velocity from a point on the timeline on, 0 for silence
+export interface SynthEnvelopePoint {
+  timeMs: number;
+  velocity: number;
+}
+
+// Helper: Seeded generator so offline renders come out identical
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Source -> Filter -> Gain, unconnected at the output end
+const buildVoice = (ctx: BaseAudioContext, random: () => number) => {
+  // Create White Noise Buffer
+  const bufferSize = ctx.sampleRate * 2; // 2 seconds loop
+  const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < bufferSize; i++) {
+    data[i] = random() * 2 - 1;
+  }
+
+  const noiseSource = ctx.createBufferSource();
+  noiseSource.buffer = buffer;
+  noiseSource.loop = true;
+
+  // Filter to simulate paper friction (Bandpass)
+  const filterNode = ctx.createBiquadFilter();
+  filterNode.type = 'bandpass';
+  filterNode.frequency.value = 400; // Center freq
+  filterNode.Q.value = 0.5;
+
+  // Gain for volume/envelope
+  const gainNode = ctx.createGain();
+  gainNode.gain.value = 0;
+
+  noiseSource.connect(filterNode);
+  filterNode.connect(gainNode);
+  return { noiseSource, filterNode, gainNode };
+};
+
 export class AudioSynth {
   private ctx: AudioContext | null = null;
   private gainNode: GainNode | null = null;
   private noiseSource: AudioBufferSourceNode | null = null;
   private filterNode: BiquadFilterNode | null = null;
-  // Fix: Correct type name for MediaStreamAudioDestinationNode
-  public destination: MediaStreamAudioDestinationNode | null = null;
   private isPlaying: boolean = false;
 
   constructor() {
@@ -15,7 +62,6 @@ export class AudioSynth {
       const AudioCtor = (window.AudioContext || (window as any).webkitAudioContext);
       if (AudioCtor) {
         this.ctx = new AudioCtor();
-        this.destination = this.ctx.createMediaStreamDestination();
       }
     } catch (e) {
       console.warn("WebAudio not supported", e);
@@ -28,37 +74,14 @@ export class AudioSynth {
       this.ctx.resume();
     }
 
-    // Create White Noise Buffer
-    const bufferSize = this.ctx.sampleRate * 2; // 2 seconds loop
-    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-    const data = buffer.getChannelData(0);
-    for (let i = 0; i < bufferSize; i++) {
-      data[i] = Math.random() * 2 - 1;
-    }
-
-    this.noiseSource = this.ctx.createBufferSource();
-    this.noiseSource.buffer = buffer;
-    this.noiseSource.loop = true;
-
-    // Filter to simulate paper friction (Bandpass)
-    this.filterNode = this.ctx.createBiquadFilter();
-    this.filterNode.type = 'bandpass';
-    this.filterNode.frequency.value = 400; // Center freq
-    this.filterNode.Q.value = 0.5;
-
-    // Gain for volume/envelope
-    this.gainNode = this.ctx.createGain();
-    this.gainNode.gain.value = 0;
+    const { noiseSource, filterNode, gainNode } = buildVoice(this.ctx, Math.random);
+    this.noiseSource = noiseSource;
+    this.filterNode = filterNode;
+    this.gainNode = gainNode;
 
     // Connect graph
-    // Source -> Filter -> Gain -> Destination (Speakers + Stream)
-    this.noiseSource.connect(this.filterNode);
-    this.filterNode.connect(this.gainNode);
-    
+    // Source -> Filter -> Gain -> Speakers
     this.gainNode.connect(this.ctx.destination);
-    if (this.destination) {
-      this.gainNode.connect(this.destination);
-    }
 
     this.noiseSource.start();
     this.isPlaying = true;
@@ -83,23 +106,42 @@ export class AudioSynth {
   public setIntensity(velocity: number) {
     if (!this.gainNode || !this.ctx) return;
     
-    // Map velocity (roughly 0-5) to volume (0-0.3)
-    // Clamp velocity to avoid blowing ears
-    const targetVol = Math.min(0.2, Math.max(0, velocity * 0.05));
-    
     // Smooth transition
-    this.gainNode.gain.setTargetAtTime(targetVol, this.ctx.currentTime, 0.05);
+    this.gainNode.gain.setTargetAtTime(volumeFor(velocity), this.ctx.currentTime, VOLUME_SMOOTHING_S);
     
     // Modulate pitch slightly with speed for realism
     if (this.filterNode) {
-       const targetFreq = 300 + (velocity * 100);
-       this.filterNode.frequency.setTargetAtTime(targetFreq, this.ctx.currentTime, 0.1);
+       this.filterNode.frequency.setTargetAtTime(frequencyFor(velocity), this.ctx.currentTime, FREQUENCY_SMOOTHING_S);
     }
   }
 
   public silence() {
     if (this.gainNode && this.ctx) {
-      this.gainNode.gain.setTargetAtTime(0, this.ctx.currentTime, 0.05);
+      this.gainNode.gain.setTargetAtTime(0, this.ctx.currentTime, VOLUME_SMOOTHING_S);
     }
   }
+
+  /**
+   * Renders the same voice faster than real time for file exports, following a recorded
+   * velocity envelope instead of live setIntensity calls. Mono, seeded noise.
+   */
+  public static renderOffline(envelope: SynthEnvelopePoint[], durationMs: number, sampleRate: number = 48000): Promise<AudioBuffer> {
+    const length = Math.max(1, Math.ceil((durationMs / 1000) * sampleRate));
+    const ctx = new OfflineAudioContext(1, length, sampleRate);
+    const { noiseSource, filterNode, gainNode } = buildVoice(ctx, mulberry32(1));
+    gainNode.connect(ctx.destination);
+
+    let previous = 0;
+    for (const { timeMs, velocity } of envelope) {
+      if (velocity === previous) continue;
+      const at = timeMs / 1000;
+      gainNode.gain.setTargetAtTime(volumeFor(velocity), at, VOLUME_SMOOTHING_S);
+      // Silence leaves the pitch where it was, same as silence()
+      if (velocity > 0) filterNode.frequency.setTargetAtTime(frequencyFor(velocity), at, FREQUENCY_SMOOTHING_S);
+      previous = velocity;
+    }
+
+    noiseSource.start(0);
+    return ctx.startRendering();
+  }
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+
+// 'fixed': legacy luminance < 200 cut-off
+// 'otsu': global threshold from the luminance histogram
+// 'sauvola': local threshold from mean/deviation in a window (uneven lighting, shadows)
+export type ThresholdMethod = 'fixed' | 'otsu' | 'sauvola';
+
+export interface BinarizationResult {
+  mask: Uint8Array;   // 1 = ink, 0 = paper
+  threshold: number;  // Global threshold, or mean local threshold over the ink for Sauvola
+  note: string;       // Human readable summary for metadata.notes
+}
+
+const FIXED_THRESHOLD = 200;
+const MIN_ALPHA = 50;
+
+// Otsu is meaningless on a blank page: below this between-class variance the fixed threshold is used
+const MIN_OTSU_VARIANCE = 100;
+
+// Sauvola defaults (window is scaled with the image width, ~25px at 1200px)
+const SAUVOLA_K = 0.2;
+const SAUVOLA_R = 128;
+
+// Helper: Per-pixel luminance (0-255)
+const computeLuminance = (data: Uint8ClampedArray, pixelCount: number): Float32Array => {
+  const lum = new Float32Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    const o = i * 4;
+    lum[i] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+  }
+  return lum;
+};
+
+// Helper: Otsu's method over the opaque pixels. Returns the threshold and its between-class variance.
+const otsuThreshold = (lum: Float32Array, data: Uint8ClampedArray): { threshold: number, variance: number } => {
+  const hist = new Array<number>(256).fill(0);
+  let total = 0;
+  for (let i = 0; i < lum.length; i++) {
+    if (data[i * 4 + 3] <= MIN_ALPHA) continue;
+    hist[Math.min(255, Math.round(lum[i]))]++;
+    total++;
+  }
+  if (total === 0) return { threshold: FIXED_THRESHOLD, variance: 0 };
+
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * hist[t];
+
+  // Dark class (ink) is everything <= t, light class (paper) the rest
+  let sumInk = 0, weightInk = 0;
+  let best = { threshold: FIXED_THRESHOLD, variance: 0 };
+  for (let t = 0; t < 256; t++) {
+    weightInk += hist[t];
+    if (weightInk === 0) continue;
+    const weightPaper = total - weightInk;
+    if (weightPaper === 0) break;
+
+    sumInk += t * hist[t];
+    const meanInk = sumInk / weightInk;
+    const meanPaper = (sumAll - sumInk) / weightPaper;
+    const variance = (weightInk / total) * (weightPaper / total) * (meanInk - meanPaper) ** 2;
+    if (variance > best.variance) best = { threshold: t + 1, variance };
+  }
+  return best;
+};
+
+// Helper: Sauvola local thresholding using integral images of lum, lum^2 and the opaque pixel count.
+// Transparent pixels stay out of the window statistics, so a cut-out signature isn't judged
+// against the black that transparent RGBA reads as.
+const sauvolaMask = (lum: Float32Array, data: Uint8ClampedArray, width: number, height: number, windowSize: number): BinarizationResult => {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  const integralSq = new Float64Array(stride * (height + 1));
+  const integralCount = new Float64Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0, rowSumSq = 0, rowCount = 0;
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      if (data[idx * 4 + 3] > MIN_ALPHA) {
+        const v = lum[idx];
+        rowSum += v;
+        rowSumSq += v * v;
+        rowCount++;
+      }
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+      integralSq[(y + 1) * stride + x + 1] = integralSq[y * stride + x + 1] + rowSumSq;
+      integralCount[(y + 1) * stride + x + 1] = integralCount[y * stride + x + 1] + rowCount;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  const mask = new Uint8Array(width * height);
+  let thresholdSum = 0, inkCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      if (data[idx * 4 + 3] <= MIN_ALPHA) continue;
+
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      // Never zero: the pixel itself is opaque
+      const area = integralCount[y1 * stride + x1] - integralCount[y0 * stride + x1] - integralCount[y1 * stride + x0] + integralCount[y0 * stride + x0];
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const sumSq = integralSq[y1 * stride + x1] - integralSq[y0 * stride + x1] - integralSq[y1 * stride + x0] + integralSq[y0 * stride + x0];
+      const mean = sum / area;
+      const std = Math.sqrt(Math.max(0, sumSq / area - mean * mean));
+      const threshold = mean * (1 + SAUVOLA_K * (std / SAUVOLA_R - 1));
+
+      if (lum[idx] < threshold) {
+        mask[idx] = 1;
+        thresholdSum += threshold;
+        inkCount++;
+      }
+    }
+  }
+
+  const meanThreshold = inkCount > 0 ? Math.round(thresholdSum / inkCount) : 0;
+  return {
+    mask,
+    threshold: meanThreshold,
+    note: `sauvola (window ${windowSize}px, k ${SAUVOLA_K}, mean T ${meanThreshold})`
+  };
+};
+
+/**
+ * Turns RGBA pixels into the 0/1 ink bitmask the tracers start from.
+ * Transparent pixels (alpha <= 50) are always paper.
+ */
+export const binarizeInk = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  method: ThresholdMethod = 'otsu'
+): BinarizationResult => {
+  const lum = computeLuminance(data, width * height);
+
+  if (method === 'sauvola') {
+    const windowSize = Math.max(9, Math.round(width / 48) | 1);
+    return sauvolaMask(lum, data, width, height, windowSize);
+  }
+
+  let threshold = FIXED_THRESHOLD;
+  let note = `fixed ${FIXED_THRESHOLD}`;
+  if (method === 'otsu') {
+    const otsu = otsuThreshold(lum, data);
+    if (otsu.variance >= MIN_OTSU_VARIANCE) {
+      threshold = otsu.threshold;
+      note = `otsu ${threshold}`;
+    } else {
+      note = `otsu inconclusive, fixed ${FIXED_THRESHOLD}`;
+    }
+  }
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    if (lum[i] < threshold && data[i * 4 + 3] > MIN_ALPHA) mask[i] = 1;
+  }
+  return { mask, threshold, note };
+};
@@ -0,0 +1,99 @@
+
+const INF = 1e20;
+
+// Helper: 1D squared distance transform of a sampled function (Felzenszwalb & Huttenlocher)
+const transform1D = (f: Float64Array, n: number, d: Float64Array, v: Int32Array, z: Float64Array) => {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -INF;
+  z[1] = INF;
+  for (let q = 1; q < n; q++) {
+    let s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = ((f[q] + q * q) - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = INF;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) ** 2 + f[v[k]];
+  }
+};
+
+/**
+ * Exact Euclidean distance transform of an ink mask.
+ * Every ink pixel gets its distance (px) to the nearest paper pixel, paper is 0.
+ * Outside the image counts as paper, so ink touching the border stays thin there.
+ */
+export const distanceTransform = (mask: Uint8Array, width: number, height: number): Float32Array => {
+  // Pad by one pixel of paper on each side
+  const pw = width + 2, ph = height + 2;
+  const grid = new Float64Array(pw * ph);
+  for (let y = 0; y < ph; y++) {
+    for (let x = 0; x < pw; x++) {
+      const inside = x > 0 && y > 0 && x <= width && y <= height;
+      grid[y * pw + x] = inside && mask[(y - 1) * width + (x - 1)] ? INF : 0;
+    }
+  }
+
+  const n = Math.max(pw, ph);
+  const f = new Float64Array(n);
+  const d = new Float64Array(n);
+  const v = new Int32Array(n);
+  const z = new Float64Array(n + 1);
+
+  // Columns, then rows
+  for (let x = 0; x < pw; x++) {
+    for (let y = 0; y < ph; y++) f[y] = grid[y * pw + x];
+    transform1D(f, ph, d, v, z);
+    for (let y = 0; y < ph; y++) grid[y * pw + x] = d[y];
+  }
+  for (let y = 0; y < ph; y++) {
+    for (let x = 0; x < pw; x++) f[x] = grid[y * pw + x];
+    transform1D(f, pw, d, v, z);
+    for (let x = 0; x < pw; x++) grid[y * pw + x] = d[x];
+  }
+
+  const dist = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      dist[y * width + x] = Math.sqrt(grid[(y + 1) * pw + (x + 1)]);
+    }
+  }
+  return dist;
+};
+
+/**
+ * Typical stroke width (px) of the ink: median width over the ridge of the
+ * distance map, i.e. the pixels at least as far from paper as all their neighbours.
+ * Returns 0 for an empty mask.
+ */
+export const estimateStrokeWidth = (dist: Float32Array, width: number, height: number): number => {
+  const widths: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = dist[y * width + x];
+      if (d === 0) continue;
+
+      let isRidge = true;
+      for (let dy = -1; dy <= 1 && isRidge; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          if (dist[ny * width + nx] > d) { isRidge = false; break; }
+        }
+      }
+      // Same width convention as the tracer's thickness sampling
+      if (isRidge) widths.push(Math.max(1, d * 2 - 0.5));
+    }
+  }
+  if (widths.length === 0) return 0;
+
+  widths.sort((a, b) => a - b);
+  return widths[Math.floor(widths.length / 2)];
+};
@@ -0,0 +1,34 @@
+import { lookupByName } from './lookup';
+
+// Named easing functions (Penner set) for HandwritingStyle.easing_start / easing_end.
+// Each maps t in [0, 1] to progress, 0 -> 0 and 1 -> 1. The Back family overshoots.
+export type EasingFunction = (t: number) => number;
+
+const BACK_C1 = 1.70158;
+const BACK_C2 = BACK_C1 * 1.525;
+const BACK_C3 = BACK_C1 + 1;
+
+// Helper: Build the In / Out / InOut variants from an ease-in curve
+const family = (name: string, easeIn: EasingFunction): Record<string, EasingFunction> => ({
+  [`easeIn${name}`]: easeIn,
+  [`easeOut${name}`]: (t) => 1 - easeIn(1 - t),
+  [`easeInOut${name}`]: (t) => t < 0.5 ? easeIn(2 * t) / 2 : 1 - easeIn(2 - 2 * t) / 2
+});
+
+export const EASINGS: Record<string, EasingFunction> = {
+  linear: (t) => t,
+  ...family('Quad', (t) => t * t),
+  ...family('Cubic', (t) => t * t * t),
+  ...family('Quart', (t) => t ** 4),
+  ...family('Quint', (t) => t ** 5),
+  ...family('Sine', (t) => 1 - Math.cos((t * Math.PI) / 2)),
+  ...family('Expo', (t) => t === 0 ? 0 : 2 ** (10 * t - 10)),
+  ...family('Circ', (t) => 1 - Math.sqrt(1 - t * t)),
+  ...family('Back', (t) => BACK_C3 * t ** 3 - BACK_C1 * t * t),
+  // Penner's InOutBack uses a stronger overshoot than mirroring easeInBack
+  easeInOutBack: (t) => t < 0.5
+    ? ((2 * t) ** 2 * ((BACK_C2 + 1) * 2 * t - BACK_C2)) / 2
+    : ((2 * t - 2) ** 2 * ((BACK_C2 + 1) * (t * 2 - 2) + BACK_C2) + 2) / 2
+};
+
+export const getEasing = (name: string): EasingFunction => lookupByName(EASINGS, name, 'easing');
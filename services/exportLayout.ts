@@ -0,0 +1,130 @@
+
+import { StrokePath } from '../types';
+
+// Placement of the signature in an export whose size is chosen independently of the
+// on-screen canvas. The plan stays in canvas coordinates; exports draw it through a
+// viewport (uniform scale plus offset) into a surface of the output size.
+export type FitMode =
+  | 'contain' // The signature's ink fits inside the padded area
+  | 'cover'   // The ink fills the padded area, its edges may be cropped
+  | 'canvas'; // The whole on-screen canvas fits inside the padded area, framing as previewed
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Output point = plan point * scale + (x, y)
+export interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const IDENTITY_VIEWPORT: Viewport = { scale: 1, x: 0, y: 0 };
+
+// Room (output px) something drawn at a fixed size around the content needs beyond its edges
+export interface Overhang {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export const NO_OVERHANG: Overhang = { left: 0, right: 0, top: 0, bottom: 0 };
+
+export const EXPORT_SIZE_PRESETS = {
+  '720p': { label: '720p', width: 1280, height: 720 },
+  '1080p': { label: '1080p', width: 1920, height: 1080 },
+  '4k': { label: '4K', width: 3840, height: 2160 },
+  'square': { label: 'Square', width: 1080, height: 1080 },
+  'portrait': { label: 'Portrait', width: 1080, height: 1920 }
+};
+
+export type ExportSizePreset = keyof typeof EXPORT_SIZE_PRESETS;
+
+// A fixed size, so the same settings give the same file whatever the window size
+export const DEFAULT_EXPORT_SIZE: ExportSizePreset = '1080p';
+
+/**
+ * Bounding box of the ink in a plan, widened by half the thickest line so round caps
+ * aren't cut. Air paths don't count. Null when there is no ink.
+ */
+export const inkBounds = (paths: StrokePath[], thicknessScale: number): Rect | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  let halfWidth = 0;
+  for (const path of paths) {
+    if (path.type === 'air') continue;
+    for (const p of path.points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+      halfWidth = Math.max(halfWidth, (p.lineWidth * thicknessScale) / 2);
+    }
+  }
+  if (minX > maxX) return null;
+  return {
+    x: minX - halfWidth,
+    y: minY - halfWidth,
+    width: maxX - minX + halfWidth * 2,
+    height: maxY - minY + halfWidth * 2
+  };
+};
+
+/**
+ * Room a pen sprite needs around the tip, in output px, when drawn `height` px tall. The
+ * sprite is anchored at its tip, turns up to `sway` rad either way and rises by `lift` px.
+ */
+export const spriteOverhang = (
+  sprite: { width: number, height: number, tipX: number, tipY: number },
+  height: number,
+  sway: number,
+  lift: number
+): Overhang => {
+  const scale = height / sprite.height;
+  const corners = [[0, 0], [sprite.width, 0], [0, sprite.height], [sprite.width, sprite.height]]
+    .map(([x, y]) => ({ x: (x - sprite.tipX) * scale, y: (y - sprite.tipY) * scale }));
+  const overhang = { ...NO_OVERHANG };
+  for (const angle of [-sway, 0, sway]) {
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    for (const c of corners) {
+      const x = c.x * cos - c.y * sin;
+      const y = c.x * sin + c.y * cos;
+      overhang.left = Math.max(overhang.left, -x);
+      overhang.right = Math.max(overhang.right, x);
+      overhang.top = Math.max(overhang.top, lift - y);
+      overhang.bottom = Math.max(overhang.bottom, y);
+    }
+  }
+  return overhang;
+};
+
+/**
+ * Viewport that centres `content` in an output of the given size, inside a margin of
+ * `padding` times the output's shorter side. 'cover' scales to fill instead of fit.
+ * `overhang` is kept free around the scaled content, e.g. for the pen sprite.
+ */
+export const fitViewport = (
+  content: Rect,
+  output: { width: number, height: number },
+  mode: 'contain' | 'cover',
+  padding: number,
+  overhang: Overhang = NO_OVERHANG
+): Viewport => {
+  const margin = Math.max(0, padding) * Math.min(output.width, output.height);
+  const boxWidth = Math.max(1, output.width - margin * 2 - overhang.left - overhang.right);
+  const boxHeight = Math.max(1, output.height - margin * 2 - overhang.top - overhang.bottom);
+  const contentWidth = Math.max(1, content.width);
+  const contentHeight = Math.max(1, content.height);
+
+  const fit = mode === 'cover' ? Math.max : Math.min;
+  const scale = fit(boxWidth / contentWidth, boxHeight / contentHeight);
+  return {
+    scale,
+    x: (output.width - contentWidth * scale - overhang.left - overhang.right) / 2 + overhang.left - content.x * scale,
+    y: (output.height - contentHeight * scale - overhang.top - overhang.bottom) / 2 + overhang.top - content.y * scale
+  };
+};
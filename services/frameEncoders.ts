@@ -0,0 +1,331 @@
+
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import UPNG from 'upng-js';
+import { zipSync } from 'fflate';
+
+// Encoders for the offline export path. The engine draws each frame on its canvas
+// and hands it over with the frame's place on the timeline; the encoder owns the
+// container format and produces the finished file.
+export interface FrameEncoder {
+  readonly mimeType: string;
+  addFrame(canvas: HTMLCanvasElement, timestampMs: number, durationMs: number): void | Promise<void>;
+  addAudio?(buffer: AudioBuffer): Promise<void>; // Formats with a sound track
+  finish(): Promise<Blob>;
+}
+
+// GIF delays are stored in centiseconds
+const GIF_DELAY_UNIT = 10;
+
+/**
+ * Animated GIF via gifenc. Uses the given palette for every frame when there is one,
+ * otherwise quantizes each frame. Delays are rounded on the timeline rather than per
+ * frame, so e.g. 30 fps alternates 30 and 40 ms and the total length stays exact.
+ */
+export const createGifEncoder = (palette: number[][] | null): FrameEncoder => {
+  const gif = GIFEncoder();
+  const round = (ms: number) => Math.round(ms / GIF_DELAY_UNIT) * GIF_DELAY_UNIT;
+
+  return {
+    mimeType: 'image/gif',
+    addFrame(canvas, timestampMs, durationMs) {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Could not get canvas context");
+      const { width, height } = canvas;
+      const { data } = ctx.getImageData(0, 0, width, height);
+      const framePalette = palette ?? quantize(data, 256);
+      gif.writeFrame(applyPalette(data, framePalette), width, height, {
+        palette: framePalette,
+        delay: round(timestampMs + durationMs) - round(timestampMs)
+      });
+    },
+    async finish() {
+      gif.finish();
+      return new Blob([gif.bytes()], { type: 'image/gif' });
+    }
+  };
+};
+
+// --- WebCodecs video (MP4, WebM) ---
+const KEYFRAME_INTERVAL_S = 2;
+const AUDIO_BITRATE = 128_000;
+const AUDIO_CHUNK_FRAMES = 4096;
+const MAX_ENCODE_QUEUE = 8;
+
+// H.264 levels: [profile-level suffix, max macroblocks per frame, max macroblocks per second]
+const AVC_LEVELS: [string, number, number][] = [
+  ['1f', 3600, 108000],     // 3.1
+  ['28', 8192, 245760],     // 4.0
+  ['2a', 8704, 522240],     // 4.2
+  ['32', 22080, 589824],    // 5.0
+  ['33', 36864, 983040],    // 5.1
+  ['34', 36864, 2073600]    // 5.2
+];
+
+// Helper: High-profile codec string with the lowest level that fits the frame size and rate
+const avcCodec = (width: number, height: number, fps: number) => {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  const level = AVC_LEVELS.find(([, perFrame, perSecond]) => macroblocks <= perFrame && macroblocks * fps <= perSecond);
+  if (!level) throw new Error(`MP4 export can't encode ${width}×${height} at ${fps} fps. Pick a lower resolution or frame rate.`);
+  return `avc1.6400${level[0]}`;
+};
+
+export interface VideoEncoderOptions {
+  width: number;   // Output size, even; frames are scaled to it
+  height: number;
+  fps: number;
+  bitrate: number; // Video bits per second
+}
+
+export interface Mp4EncoderOptions extends VideoEncoderOptions {
+  audioSampleRate?: number; // Mono AAC track when set
+}
+
+const requireWebCodecs = () => {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
+    throw new Error("This browser can't encode video (WebCodecs is not available). Try a recent Chrome, Edge or Safari, or export a GIF.");
+  }
+};
+
+// Encoder callbacks can't throw into our awaits, so errors are kept for the next call
+const errorLatch = () => {
+  let failure: Error | null = null;
+  return {
+    fail: (e: Error) => { failure = failure ?? e; },
+    check: () => { if (failure) throw failure; }
+  };
+};
+
+// Helper: VideoEncoder fed from canvases, scaled to the output size, with regular keyframes
+// and back-pressure so a slow encoder doesn't pile up frames in memory
+const videoTrack = (
+  config: VideoEncoderConfig,
+  output: EncodedVideoChunkOutputCallback,
+  latch: ReturnType<typeof errorLatch>
+) => {
+  const { width, height, framerate = 30 } = config;
+  // A failed encoder closes without another 'dequeue', so the error also wakes a waiting addFrame
+  let wake = () => {};
+  const encoder = new VideoEncoder({ output, error: e => { latch.fail(e); wake(); } });
+  encoder.configure(config);
+
+  const frameCanvas = document.createElement('canvas');
+  frameCanvas.width = width;
+  frameCanvas.height = height;
+  const frameCtx = frameCanvas.getContext('2d');
+  if (!frameCtx) throw new Error("Could not get canvas context");
+
+  let frameIndex = 0;
+  const keyframeEvery = Math.max(1, Math.round(framerate * KEYFRAME_INTERVAL_S));
+
+  return {
+    async addFrame(canvas: HTMLCanvasElement, timestampMs: number, durationMs: number) {
+      latch.check();
+      frameCtx.clearRect(0, 0, width, height);
+      frameCtx.drawImage(canvas, 0, 0, width, height);
+      const frame = new VideoFrame(frameCanvas, {
+        timestamp: Math.round(timestampMs * 1000),
+        duration: Math.round(durationMs * 1000)
+      });
+      encoder.encode(frame, { keyFrame: frameIndex % keyframeEvery === 0 });
+      frame.close();
+      frameIndex++;
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        latch.check();
+        if (encoder.state === 'closed') throw new Error("The video encoder stopped unexpectedly.");
+        await new Promise<void>(resolve => {
+          wake = resolve;
+          encoder.addEventListener('dequeue', () => resolve(), { once: true });
+        });
+      }
+    },
+    async flush() {
+      latch.check();
+      await encoder.flush();
+      encoder.close();
+      latch.check();
+    }
+  };
+};
+
+/**
+ * H.264/AAC MP4 via WebCodecs and mp4-muxer. Rejects with a readable message when the
+ * browser has no WebCodecs or can't encode the requested configuration.
+ */
+export const createMp4Encoder = async (options: Mp4EncoderOptions): Promise<FrameEncoder> => {
+  const { width, height, fps, bitrate, audioSampleRate } = options;
+  requireWebCodecs();
+
+  const videoConfig: VideoEncoderConfig = { codec: avcCodec(width, height, fps), width, height, bitrate, framerate: fps };
+  const videoSupport = await VideoEncoder.isConfigSupported(videoConfig);
+  if (!videoSupport.supported) {
+    throw new Error(`This browser can't encode H.264 video at ${width}×${height}. Try a lower resolution, or export a GIF.`);
+  }
+
+  const audioConfig: AudioEncoderConfig | null = audioSampleRate
+    ? { codec: 'mp4a.40.2', sampleRate: audioSampleRate, numberOfChannels: 1, bitrate: AUDIO_BITRATE }
+    : null;
+  if (audioConfig) {
+    const audioSupport = typeof AudioEncoder === 'undefined' ? null : await AudioEncoder.isConfigSupported(audioConfig);
+    if (!audioSupport?.supported) {
+      throw new Error("This browser can't encode AAC audio. Export the MP4 without audio instead.");
+    }
+  }
+
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    video: { codec: 'avc', width, height, frameRate: fps },
+    audio: audioConfig ? { codec: 'aac', numberOfChannels: 1, sampleRate: audioConfig.sampleRate } : undefined,
+    fastStart: 'in-memory',
+    firstTimestampBehavior: 'offset'
+  });
+
+  const latch = errorLatch();
+  const video = videoTrack(videoConfig, (chunk, meta) => muxer.addVideoChunk(chunk, meta), latch);
+
+  const addAudio = async (config: AudioEncoderConfig, buffer: AudioBuffer) => {
+    latch.check();
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: latch.fail
+    });
+    audioEncoder.configure(config);
+    const samples = buffer.getChannelData(0);
+    for (let offset = 0; offset < samples.length; offset += AUDIO_CHUNK_FRAMES) {
+      const data = samples.slice(offset, offset + AUDIO_CHUNK_FRAMES);
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: data.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((offset / buffer.sampleRate) * 1_000_000),
+        data
+      });
+      audioEncoder.encode(audioData);
+      audioData.close();
+    }
+    await audioEncoder.flush();
+    audioEncoder.close();
+    latch.check();
+  };
+
+  return {
+    mimeType: 'video/mp4',
+    addFrame: video.addFrame,
+    // Silent MP4s have no addAudio, so the pen sound is never rendered for them
+    addAudio: audioConfig ? (buffer: AudioBuffer) => addAudio(audioConfig, buffer) : undefined,
+    async finish() {
+      await video.flush();
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/mp4' });
+    }
+  };
+};
+
+/**
+ * VP9 WebM that keeps the canvas alpha channel, via WebCodecs and webm-muxer. For
+ * compositing over footage; silent.
+ */
+export const createWebmAlphaEncoder = async (options: VideoEncoderOptions): Promise<FrameEncoder> => {
+  const { width, height, fps, bitrate } = options;
+  requireWebCodecs();
+
+  const videoConfig: VideoEncoderConfig = { codec: 'vp09.00.10.08', width, height, bitrate, framerate: fps, alpha: 'keep' };
+  const support = await VideoEncoder.isConfigSupported(videoConfig);
+  if (!support.supported) {
+    throw new Error("This browser can't encode VP9 video with transparency. Try Chrome or Edge, or export an APNG or PNG sequence.");
+  }
+
+  const target = new WebmTarget();
+  const muxer = new WebmMuxer({
+    target,
+    video: { codec: 'V_VP9', width, height, frameRate: fps, alpha: true },
+    firstTimestampBehavior: 'offset'
+  });
+
+  const video = videoTrack(videoConfig, (chunk, meta) => muxer.addVideoChunk(chunk, meta), errorLatch());
+
+  return {
+    mimeType: 'video/webm',
+    addFrame: video.addFrame,
+    async finish() {
+      await video.flush();
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/webm' });
+    }
+  };
+};
+
+// --- Lossless alpha stills (APNG, PNG sequence) ---
+
+export interface ApngEncoderOptions {
+  width: number;
+  height: number;
+  frameCount: number;
+}
+
+// Raw RGBA an APNG export may hold before encoding. UPNG needs about as much again while it
+// compresses, and a tab that runs out of memory crashes instead of throwing
+export const APNG_MAX_FRAME_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Animated PNG via UPNG. Frames are kept as raw RGBA until finish(), so exports whose
+ * frames would exceed APNG_MAX_FRAME_BYTES are refused up front. Delays are rounded on
+ * the timeline like the GIF's.
+ */
+export const createApngEncoder = ({ width, height, frameCount }: ApngEncoderOptions): FrameEncoder => {
+  const bytes = width * height * 4 * frameCount;
+  if (bytes > APNG_MAX_FRAME_BYTES) {
+    const mb = (n: number) => Math.round(n / (1024 * 1024));
+    throw new Error(
+      `An APNG of ${frameCount} frames at ${width}×${height} needs about ${mb(bytes)} MB of memory (limit ${mb(APNG_MAX_FRAME_BYTES)} MB). ` +
+      `Lower the output size or frame rate, or export a PNG sequence or transparent WebM.`
+    );
+  }
+
+  const frames: ArrayBuffer[] = [];
+  const delays: number[] = [];
+  let size: { width: number, height: number } | null = null;
+
+  return {
+    mimeType: 'image/apng',
+    addFrame(canvas, timestampMs, durationMs) {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error("Could not get canvas context");
+      const { width, height } = canvas;
+      size = size ?? { width, height };
+      frames.push(ctx.getImageData(0, 0, width, height).data.slice().buffer);
+      delays.push(Math.round(timestampMs + durationMs) - Math.round(timestampMs));
+    },
+    async finish() {
+      if (!size) throw new Error("APNG export has no frames");
+      // cnum 0: lossless, full alpha
+      const png = UPNG.encode(frames, size.width, size.height, 0, delays);
+      return new Blob([png], { type: 'image/apng' });
+    }
+  };
+};
+
+/**
+ * Zip of numbered PNG frames (frame_00000.png, ...), for editors that import image
+ * sequences. PNGs are already compressed, so the zip only stores them.
+ */
+export const createPngSequenceEncoder = (): FrameEncoder => {
+  const files: Record<string, Uint8Array> = {};
+  let index = 0;
+
+  return {
+    mimeType: 'application/zip',
+    async addFrame(canvas) {
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error("Could not encode PNG frame");
+      files[`frame_${String(index++).padStart(5, '0')}.png`] = new Uint8Array(await blob.arrayBuffer());
+    },
+    async finish() {
+      if (index === 0) throw new Error("PNG sequence export has no frames");
+      return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+    }
+  };
+};
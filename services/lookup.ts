@@ -0,0 +1,13 @@
+
+/**
+ * Looks up a named entry (easing, pressure curve, timing model, ...) in its table.
+ * Throws for unknown names so a typo in a preset fails loudly instead of silently
+ * falling back to a default.
+ */
+export const lookupByName = <T>(table: Record<string, T>, name: string, kind: string): T => {
+  const entry = Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+  if (entry === undefined) {
+    throw new Error(`Unknown ${kind} "${name}". Expected one of: ${Object.keys(table).join(', ')}`);
+  }
+  return entry;
+};
@@ -0,0 +1,318 @@
+
+import { StrokePath } from '../types';
+import { IDENTITY_VIEWPORT, Viewport } from './exportLayout';
+
+// Lottie (Bodymovin JSON) from a motion plan. Each ink path is a shape layer drawn
+// by a trim path whose end follows the pen: one keyframe per frame, at the share of
+// the stroke's length written by then. Lottie strokes have a single width, so each
+// layer uses the stroke's mean width.
+export interface LottieExportOptions {
+  width: number;
+  height: number;
+  fps: number;
+  durationMs: number; // Length of the timeline, including any hold at the end
+  strokeColor: string;
+  bgColor: string | null; // null leaves the paper out
+  thicknessScale: number;
+  view?: Viewport;        // Placement of the plan in the composition, identity when absent
+}
+
+// --- Document types (the subset of the Bodymovin schema this exporter writes) ---
+export interface LottieValue<T> {
+  a: 0;
+  k: T;
+}
+
+export interface LottieKeyframe {
+  t: number;   // Frame
+  s: number[]; // Value from this keyframe on
+  i?: { x: number[], y: number[] }; // Easing handles, left out on the last keyframe
+  o?: { x: number[], y: number[] };
+}
+
+export interface LottieAnimatedValue {
+  a: 1;
+  k: LottieKeyframe[];
+}
+
+export interface LottieLayerTransform {
+  o: LottieValue<number>;
+  r: LottieValue<number>;
+  p: LottieValue<number[]>;
+  a: LottieValue<number[]>;
+  s: LottieValue<number[]>;
+}
+
+export interface LottieGroupTransform {
+  ty: 'tr';
+  p: LottieValue<number[]>;
+  a: LottieValue<number[]>;
+  s: LottieValue<number[]>;
+  r: LottieValue<number>;
+  o: LottieValue<number>;
+  sk: LottieValue<number>;
+  sa: LottieValue<number>;
+}
+
+export interface LottiePath {
+  ty: 'sh';
+  nm: string;
+  ks: LottieValue<{ i: number[][], o: number[][], v: number[][], c: boolean }>;
+}
+
+export interface LottieEllipse {
+  ty: 'el';
+  nm: string;
+  p: LottieValue<number[]>;
+  s: LottieValue<number[]>;
+}
+
+export interface LottieTrimPath {
+  ty: 'tm';
+  nm: string;
+  s: LottieValue<number>;
+  e: LottieAnimatedValue;
+  o: LottieValue<number>;
+  m: 1;
+}
+
+export interface LottieStroke {
+  ty: 'st';
+  nm: string;
+  c: LottieValue<number[]>;
+  o: LottieValue<number>;
+  w: LottieValue<number>;
+  lc: number;
+  lj: number;
+  ml: number;
+  bm: number;
+}
+
+export interface LottieFill {
+  ty: 'fl';
+  nm: string;
+  c: LottieValue<number[]>;
+  o: LottieValue<number>;
+  r: number;
+  bm: number;
+}
+
+export type LottieShapeItem = LottiePath | LottieEllipse | LottieTrimPath | LottieStroke | LottieFill | LottieGroupTransform;
+
+export interface LottieGroup {
+  ty: 'gr';
+  nm: string;
+  it: LottieShapeItem[];
+}
+
+interface LottieLayerBase {
+  ddd: 0;
+  ind: number;
+  nm: string;
+  sr: number;
+  ks: LottieLayerTransform;
+  ao: 0;
+  ip: number;
+  op: number;
+  st: number;
+  bm: number;
+}
+
+export interface LottieShapeLayer extends LottieLayerBase {
+  ty: 4;
+  shapes: LottieGroup[];
+}
+
+export interface LottieSolidLayer extends LottieLayerBase {
+  ty: 1;
+  sc: string;
+  sw: number;
+  sh: number;
+}
+
+export type LottieLayer = LottieShapeLayer | LottieSolidLayer;
+
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm: string;
+  ddd: 0;
+  assets: never[];
+  layers: LottieLayer[];
+}
+
+const LOTTIE_VERSION = '5.7.4';
+
+// Static and animated property values
+const fixed = <T>(k: T): LottieValue<T> => ({ a: 0, k });
+const LINEAR_IN = { x: [1], y: [1] };
+const LINEAR_OUT = { x: [0], y: [0] };
+
+// Keyframe times are written to this many decimals
+const FRAME_PLACES = 3;
+
+const round = (n: number, places: number = 2) => Math.round(n * 10 ** places) / 10 ** places;
+
+// Helper: '#rrggbb' (or '#rgb') to Lottie's 0-1 RGBA
+const hexToColor = (hex: string): number[] => {
+  const full = hex.replace(/^#?([a-f\d])([a-f\d])([a-f\d])$/i, (_, r, g, b) => r + r + g + g + b + b);
+  const match = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(full);
+  if (!match) throw new Error(`Invalid colour "${hex}"`);
+  return [...match.slice(1, 4).map(c => round(parseInt(c, 16) / 255, 4)), 1];
+};
+
+const layerTransform = ({ scale, x, y }: Viewport = IDENTITY_VIEWPORT): LottieLayerTransform => ({
+  o: fixed(100),
+  r: fixed(0),
+  p: fixed([round(x), round(y), 0]),
+  a: fixed([0, 0, 0]),
+  s: fixed([round(scale * 100, 4), round(scale * 100, 4), 100])
+});
+
+const groupTransform = (): LottieGroupTransform => ({
+  ty: 'tr',
+  p: fixed([0, 0]),
+  a: fixed([0, 0]),
+  s: fixed([100, 100]),
+  r: fixed(0),
+  o: fixed(100),
+  sk: fixed(0),
+  sa: fixed(0)
+});
+
+// Helper: Trim end (0-100) keyframes for a stroke, sampled once per frame
+const trimKeyframes = (path: StrokePath, fps: number): LottieKeyframe[] => {
+  const { points } = path;
+  const arc = [0];
+  for (let i = 1; i < points.length; i++) {
+    arc.push(arc[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y));
+  }
+  const total = arc[arc.length - 1] || 1;
+
+  // Share of the length written at time t, interpolated within the current segment
+  let segment = 0;
+  const writtenAt = (t: number) => {
+    while (segment < points.length - 2 && points[segment + 1].time <= t) segment++;
+    const p1 = points[segment], p2 = points[segment + 1];
+    const span = p2.time - p1.time;
+    const f = span > 0 ? Math.max(0, Math.min(1, (t - p1.time) / span)) : 1;
+    return ((arc[segment] + (arc[segment + 1] - arc[segment]) * f) / total) * 100;
+  };
+
+  // Ends are rounded before the whole frames in between are added, so a start or end a hair
+  // off a whole frame can't round onto it and give two keyframes the same time
+  const startFrame = round((path.startTime * fps) / 1000, FRAME_PLACES);
+  const endFrame = round((path.endTime * fps) / 1000, FRAME_PLACES);
+  const frames = [startFrame];
+  for (let f = Math.floor(startFrame) + 1; f < endFrame; f++) frames.push(f);
+  if (endFrame > startFrame) frames.push(endFrame);
+
+  return frames.map((frame, i) => {
+    const value = i === frames.length - 1 ? 100 : writtenAt((frame * 1000) / fps);
+    const key: LottieKeyframe = { t: frame, s: [round(value, 3)] };
+    return i === frames.length - 1 ? key : { ...key, i: LINEAR_IN, o: LINEAR_OUT };
+  });
+};
+
+const strokeLayer = (path: StrokePath, index: number, options: LottieExportOptions, op: number): LottieShapeLayer => {
+  const { points } = path;
+  const mean = (f: (i: number) => number) => points.reduce((sum, _, i) => sum + f(i), 0) / points.length;
+  const width = mean(i => points[i].lineWidth) * options.thicknessScale;
+  const opacity = mean(i => points[i].opacity);
+  const isDot = path.type === 'dot';
+
+  const shape: LottiePath | LottieEllipse = isDot
+    ? {
+        ty: 'el',
+        nm: 'Dot',
+        p: fixed([round(points[0].x), round(points[0].y)]),
+        s: fixed([round(Math.max(1, width)), round(Math.max(1, width))])
+      }
+    : {
+        ty: 'sh',
+        nm: 'Path',
+        ks: fixed({
+          i: points.map(() => [0, 0]),
+          o: points.map(() => [0, 0]),
+          v: points.map(p => [round(p.x), round(p.y)]),
+          c: false
+        })
+      };
+
+  const paint: LottieStroke | LottieFill = isDot
+    ? { ty: 'fl', nm: 'Ink', c: fixed(hexToColor(options.strokeColor)), o: fixed(round(opacity * 100)), r: 1, bm: 0 }
+    : {
+        ty: 'st',
+        nm: 'Ink',
+        c: fixed(hexToColor(options.strokeColor)),
+        o: fixed(round(opacity * 100)),
+        w: fixed(round(width)),
+        lc: 2, // Round cap
+        lj: 2, // Round join
+        ml: 4,
+        bm: 0
+      };
+
+  const trim: LottieTrimPath = { ty: 'tm', nm: 'Write', s: fixed(0), e: { a: 1, k: trimKeyframes(path, options.fps) }, o: fixed(0), m: 1 };
+
+  return {
+    ddd: 0,
+    ind: index,
+    ty: 4,
+    nm: path.id,
+    sr: 1,
+    ks: layerTransform(options.view),
+    ao: 0,
+    shapes: [{ ty: 'gr', nm: path.id, it: isDot ? [shape, paint, groupTransform()] : [shape, trim, paint, groupTransform()] }],
+    // A dot appears when the pen taps, strokes are hidden by their trim until then
+    ip: isDot ? round((path.startTime * options.fps) / 1000, FRAME_PLACES) : 0,
+    op,
+    st: 0,
+    bm: 0
+  };
+};
+
+/**
+ * Builds the Lottie animation. Air paths are left out and the paper, if any, is a solid
+ * layer underneath the ink (Lottie draws the first layer on top).
+ */
+export const buildLottie = (paths: StrokePath[], options: LottieExportOptions): LottieAnimation => {
+  const { width, height, fps, durationMs, bgColor } = options;
+  const op = Math.max(1, Math.ceil((durationMs * fps) / 1000));
+  const ink = paths.filter(path => path.type !== 'air' && path.points.length >= 2);
+
+  const layers: LottieLayer[] = ink.map((path, i) => strokeLayer(path, ink.length - i, options, op)).reverse();
+  if (bgColor) layers.push({
+    ddd: 0,
+    ind: ink.length + 1,
+    ty: 1,
+    nm: 'Paper',
+    sr: 1,
+    ks: layerTransform(),
+    ao: 0,
+    sc: bgColor,
+    sw: width,
+    sh: height,
+    ip: 0,
+    op,
+    st: 0,
+    bm: 0
+  });
+
+  return {
+    v: LOTTIE_VERSION,
+    fr: fps,
+    ip: 0,
+    op,
+    w: width,
+    h: height,
+    nm: 'Signature',
+    ddd: 0,
+    assets: [],
+    layers
+  };
+};
@@ -1,5 +1,9 @@
 
 import { SignatureAnalysis, HandwritingStyle, PhysicsPoint, StrokePath } from '../types';
+import { EasingFunction, getEasing } from './easing';
+import { getPressureCurve } from './pressure';
+import { getTimingModel, TimingModelName, TimingParams } from './timingModels';
+import { lookupByName } from './lookup';
 
 // Simple distance function
 const dist = (p1: {x:number, y:number}, p2: {x:number, y:number}) => {
@@ -9,7 +13,7 @@ const dist = (p1: {x:number, y:number}, p2: {x:number, y:number}) => {
 };
 
 // Filter Redundant Points
-const filterRedundantPoints = (points: {x: number, y: number, z?: number, a?: number}[]) => {
+const filterRedundantPoints = (points: {x: number, y: number, z?: number, a?: number, pressure?: number}[]) => {
   if (points.length < 2) return points;
   const result = [points[0]];
   
@@ -34,11 +38,197 @@ const filterRedundantPoints = (points: {x: number, y: number, z?: number, a?: nu
   return result;
 };
 
+// Pen-down acceleration / pen-up braking window
+const EASE_RAMP_MS = 120;
+
+// Helper: Re-time a stroke so it accelerates after pen-down (easeStart) and brakes before pen-up (easeEnd).
+// Progress over the two ramps follows the easings, the middle keeps its natural pace and the
+// stroke's total duration is unchanged.
+const applyEasing = (
+  points: PhysicsPoint[],
+  startTime: number,
+  endTime: number,
+  easeStart: EasingFunction,
+  easeEnd: EasingFunction
+) => {
+  const total = endTime - startTime;
+  if (total <= 0 || points.length < 2) return;
+  const ramp = Math.min(0.3, EASE_RAMP_MS / total);
+
+  const progressAt = (theta: number) => {
+    if (theta < ramp) return ramp * easeStart(theta / ramp);
+    if (theta > 1 - ramp) return 1 - ramp + ramp * easeEnd((theta - (1 - ramp)) / ramp);
+    return theta;
+  };
+
+  // Sampled progress curve. Running max: where an overshooting (Back) easing would run ahead
+  // and come back, the pen holds still for a moment instead
+  const SAMPLES = 128;
+  const curve = new Float64Array(SAMPLES + 1);
+  let peak = 0;
+  for (let k = 0; k <= SAMPLES; k++) {
+    peak = Math.max(peak, Math.min(1, progressAt(k / SAMPLES)));
+    curve[k] = peak;
+  }
+  curve[SAMPLES] = 1;
+
+  // Each point keeps its place along the stroke and gets the time at which the eased curve reaches it
+  let k = 0;
+  for (const p of points) {
+    const progress = (p.time - startTime) / total;
+    while (k < SAMPLES - 1 && curve[k + 1] < progress) k++;
+    const span = curve[k + 1] - curve[k];
+    const frac = span > 0 ? Math.min(1, Math.max(0, (progress - curve[k]) / span)) : 0;
+    p.time = startTime + ((k + frac) / SAMPLES) * total;
+  }
+};
+
+// Pressure modulation. Traced widths (z) already carry the real ink thickness,
+// so the curve only shapes them partly; without z the curve drives the width alone
+const PRESSURE_BLEND_TRACED = 0.5;
+const PRESSURE_OPACITY = 0.25; // A lighter touch lays down slightly less ink
+
+// Helper: Recorded pressure for raw point i, tolerating arrays that don't match the point count
+const samplePressure = (pressure: number[] | undefined, i: number, count: number) => {
+  if (!pressure || pressure.length === 0) return undefined;
+  const j = count > 1 ? Math.round((i / (count - 1)) * (pressure.length - 1)) : 0;
+  const value = pressure[j];
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : undefined;
+};
+
+// Overshoot / pen-lift flick
+const OVERSHOOT_MAX_FRACTION = 0.08; // Longest tail at intensity 1, as a fraction of canvas width
+const OVERSHOOT_POINTS = 6;
+const OVERSHOOT_SPEEDUP = 0.5; // The pen leaves the paper faster than it writes
+const OVERSHOOT_MAX_TURN = 0.6; // rad, total bend of the tail
+
+// Helper: Angle difference wrapped to [-PI, PI]
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+// Helper: Tail points continuing the stroke past its last point. The pen keeps its heading
+// and curvature while lifting, so the tail thins out and fades to nothing
+const buildOvershootTail = (points: PhysicsPoint[], length: number, msPerPx: number): PhysicsPoint[] => {
+  const n = points.length;
+  if (n < 2 || length < 0.5) return [];
+  const last = points[n - 1];
+
+  // Heading over the last couple of pen widths, so a jittery final sample doesn't throw the tail sideways
+  const span = Math.max(2, last.lineWidth * 2);
+  let j = n - 2;
+  while (j > 0 && dist(points[j], last) < span) j--;
+  const ref = points[j];
+  const refDist = dist(ref, last);
+  if (refDist < 0.001) return [];
+  let heading = Math.atan2(last.y - ref.y, last.x - ref.x);
+
+  // Curvature over the span before that
+  let turnPerPx = 0;
+  let k = j - 1;
+  while (k > 0 && dist(points[k], ref) < span) k--;
+  if (k >= 0 && k < j && dist(points[k], ref) > 0.001) {
+    const prevHeading = Math.atan2(ref.y - points[k].y, ref.x - points[k].x);
+    turnPerPx = wrapAngle(heading - prevHeading) / refDist;
+  }
+  const maxTurnPerPx = OVERSHOOT_MAX_TURN / length;
+  turnPerPx = Math.max(-maxTurnPerPx, Math.min(maxTurnPerPx, turnPerPx));
+
+  const tail: PhysicsPoint[] = [];
+  const step = length / OVERSHOOT_POINTS;
+  let { x, y, time } = last;
+  for (let i = 1; i <= OVERSHOOT_POINTS; i++) {
+    const s = i / OVERSHOOT_POINTS;
+    heading += turnPerPx * step;
+    x += Math.cos(heading) * step;
+    y += Math.sin(heading) * step;
+    time += Math.max(0.01, step * msPerPx * OVERSHOOT_SPEEDUP);
+    tail.push({
+      x,
+      y,
+      time,
+      lineWidth: last.lineWidth * (1 - 0.7 * s),
+      opacity: last.opacity * (1 - s)
+    });
+  }
+  return tail;
+};
+
+// Helper: Baseline for re-slanting, the level most of the ink sits on (low percentile of the
+// writing, so descenders don't drag it down). Output space, 0-10000
+const estimateBaseline = (data: SignatureAnalysis) => {
+  const ys = data.strokes.flatMap(stroke => (stroke.points || []).map(p => p.y)).sort((a, b) => a - b);
+  return ys.length > 0 ? ys[Math.floor((ys.length - 1) * 0.8)] : 0;
+};
+
+// Air strokes: hover handle length (fraction of the jump) per HandwritingStyle.connection_smoothing
+const CONNECTION_SMOOTHING: Record<string, number> = {
+  none: 0,
+  low: 0.15,
+  medium: 0.25,
+  high: 0.35,
+  extreme: 0.5
+};
+const AIR_SAMPLE_PX = 8;
+
+const getConnectionSmoothing = (name: string) => lookupByName(CONNECTION_SMOOTHING, name, 'connection smoothing');
+
+// Helper: Hover path from the end of one stroke to the start of the next. A cubic Bezier leaving
+// along the old stroke's heading and arriving along the new one's, timed with a minimum-jerk profile.
+// No ink: width and opacity are 0
+const buildAirStroke = (
+  from: PhysicsPoint[],
+  to: PhysicsPoint[],
+  startTime: number,
+  endTime: number,
+  smoothing: number
+): PhysicsPoint[] => {
+  const a = from[from.length - 1];
+  const b = to[0];
+  const d = dist(a, b);
+  const heading = (p: {x: number, y: number}, q: {x: number, y: number}) => {
+    const l = dist(p, q);
+    return l > 0.001 ? { x: (q.x - p.x) / l, y: (q.y - p.y) / l } : { x: 0, y: 0 };
+  };
+  const out = from.length > 1 ? heading(from[from.length - 2], a) : { x: 0, y: 0 };
+  const into = to.length > 1 ? heading(b, to[1]) : { x: 0, y: 0 };
+  const c1 = { x: a.x + out.x * d * smoothing, y: a.y + out.y * d * smoothing };
+  const c2 = { x: b.x - into.x * d * smoothing, y: b.y - into.y * d * smoothing };
+
+  const n = Math.max(4, Math.ceil(d / AIR_SAMPLE_PX));
+  const points: PhysicsPoint[] = [];
+  for (let i = 0; i <= n; i++) {
+    const s = i / n;
+    const u = s * s * s * (10 - 15 * s + 6 * s * s); // Minimum jerk
+    const v = 1 - u;
+    points.push({
+      x: v * v * v * a.x + 3 * v * v * u * c1.x + 3 * v * u * u * c2.x + u * u * u * b.x,
+      y: v * v * v * a.y + 3 * v * v * u * c1.y + 3 * v * u * u * c2.y + u * u * u * b.y,
+      time: startTime + s * (endTime - startTime),
+      lineWidth: 0,
+      opacity: 0
+    });
+  }
+  return points;
+};
+
+// Pen tap timing for dots (i-dots, full stops)
+const DOT_TAP_MS = 60;    // Pen down until the ink has spread
+const DOT_PAUSE_MS = 120; // Hesitation after the tap before the pen moves on
+
+export interface MotionPlanOptions {
+  // Shear the writing around its baseline from the traced natural slant to style.slant_angle_deg
+  reslant?: boolean;
+  // When the pen reaches each point, 'ms-per-px' (default) or 'sigma-lognormal'
+  timingModel?: TimingModelName;
+  // Fill pen lifts with 'air' paths (no ink) the pen hovers along, shaped by style.connection_smoothing
+  airStrokes?: boolean;
+}
+
 export const generateMotionPlan = (
   data: SignatureAnalysis, 
   canvasWidth: number, 
   canvasHeight: number, 
-  style?: HandwritingStyle
+  style?: HandwritingStyle,
+  options: MotionPlanOptions = {}
 ): StrokePath[] => {
   if (!data || !data.strokes) return [];
 
@@ -50,7 +240,19 @@ export const generateMotionPlan = (
   const baseWidthScale = style ? (style.pressure_scale || 1) : 1;
   const fallbackWidth = 1.5 * baseWidthScale;
   const inertia = style ? style.inertia_factor : 0;
+  const overshoot = style ? style.overshoot_intensity || 0 : 0;
+  const timingModel = getTimingModel(options.timingModel ?? 'ms-per-px');
+  const timingParams: TimingParams = {
+      baseMsPerPx,
+      inertia,
+      speedMultiplier: style ? style.speed_multiplier || 1 : 1
+  };
   
+  // Throws on unknown easing / pressure curve names
+  const easeStart = getEasing(style ? style.easing_start : 'linear');
+  const easeEnd = getEasing(style ? style.easing_end : 'linear');
+  const pressureCurve = style ? getPressureCurve(style.pressure_curve) : null;
+
   // Tremor Constants
   const tremorAmp = style ? style.micro_tremor_amp_px : 0;
   const tremorFreq = style ? style.micro_tremor_freq_hz : 0;
@@ -58,26 +260,96 @@ export const generateMotionPlan = (
   let prevEndPos: {x: number, y: number} | null = null;
   const SCALE_FACTOR = 10000; 
 
+  // Throws on unknown names, only checked when air strokes are requested
+  const airSmoothing = options.airStrokes ? getConnectionSmoothing(style ? style.connection_smoothing : 'medium') : 0;
+
+  // Helper: Air path over the lift that just ended, from the previous ink path to `next`
+  const pushAirStroke = (index: number, liftStart: number | null, endTime: number, next: PhysicsPoint[]) => {
+      const prev = paths[paths.length - 1];
+      if (!options.airStrokes || liftStart === null || !prev || endTime <= liftStart) return;
+      paths.push({
+          id: `air-${index}`,
+          type: 'air',
+          points: buildAirStroke(prev.points, next, liftStart, endTime, airSmoothing),
+          startTime: liftStart,
+          endTime
+      });
+  };
+
+  // Re-slant (shear in canvas pixels, the canvas shares the image's aspect ratio)
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const shear = options.reslant && style
+      ? Math.tan(toRad(style.slant_angle_deg)) - Math.tan(toRad(data.metadata?.slant_deg ?? 0))
+      : 0;
+  const baselineY = shear !== 0 ? (estimateBaseline(data) / SCALE_FACTOR) * canvasHeight : 0;
+  const toCanvas = (p: {x: number, y: number}) => {
+      const y = (p.y / SCALE_FACTOR) * canvasHeight;
+      return { x: (p.x / SCALE_FACTOR) * canvasWidth + (baselineY - y) * shear, y };
+  };
+
   data.strokes.forEach((stroke, index) => {
       const rawPoints = stroke.points || [];
+
+      if (stroke.type === 'dot' && rawPoints.length > 0) {
+          const p = rawPoints[0];
+          const pos = toCanvas(p);
+          const dotWidth = p.z !== undefined ? (p.z / SCALE_FACTOR) * canvasWidth * baseWidthScale : fallbackWidth * 2;
+          const dotOpacity = p.a !== undefined ? p.a : 1.0;
+
+          let liftStart: number | null = null;
+          if (prevEndPos) {
+              const d = dist(pos, prevEndPos);
+              liftStart = currentTime;
+              currentTime += Math.min(d * 0.5, 250) + 50;
+          }
+
+          const startTime = currentTime;
+          currentTime += DOT_TAP_MS;
+          const dotPoints: PhysicsPoint[] = [
+              { ...pos, time: startTime, lineWidth: dotWidth, opacity: dotOpacity },
+              { ...pos, time: currentTime, lineWidth: dotWidth, opacity: dotOpacity }
+          ];
+          pushAirStroke(index, liftStart, startTime, dotPoints);
+          paths.push({
+              id: `dot-${index}`,
+              type: 'dot',
+              points: dotPoints,
+              startTime,
+              endTime: currentTime
+          });
+
+          currentTime += DOT_PAUSE_MS;
+          prevEndPos = pos;
+          return;
+      }
+
       if (rawPoints.length < 2) return;
 
       // 1. Map Coordinates & Attributes
-      const mappedPoints = rawPoints.map(p => ({
-          x: (p.x / SCALE_FACTOR) * canvasWidth,
-          y: (p.y / SCALE_FACTOR) * canvasHeight,
+      const mappedPoints = rawPoints.map((p, i) => ({
+          ...toCanvas(p),
           z: p.z, // Normalized width
-          a: p.a  // Opacity
+          a: p.a, // Opacity
+          pressure: samplePressure(stroke.pressure, i, rawPoints.length) // Recorded pen pressure, if imported
       }));
 
       // 2. Conservative Filter
       const processedPoints = filterRedundantPoints(mappedPoints);
 
+      // Arc length progress, drives the pressure curve
+      const arcLengths = [0];
+      for (let i = 1; i < processedPoints.length; i++) {
+          arcLengths.push(arcLengths[i - 1] + dist(processedPoints[i], processedPoints[i - 1]));
+      }
+      const strokeLength = arcLengths[arcLengths.length - 1];
+
       // 3. Pen Lift Calculation
+      let liftStart: number | null = null;
       if (prevEndPos) {
           const d = dist(processedPoints[0], prevEndPos);
           if (d > 30) {
               const liftTime = Math.min(d * 0.5, 250) + 50;
+              liftStart = currentTime;
               currentTime += liftTime;
           }
       }
@@ -86,16 +358,11 @@ export const generateMotionPlan = (
       const physicsPoints: PhysicsPoint[] = [];
       
       // 4. Generate Traversal Points
+      const strokeTimes = timingModel(processedPoints, timingParams);
+
       for (let i = 0; i < processedPoints.length; i++) {
           const p = processedPoints[i];
-          
-          // Apply Tremor
-          let tx = 0, ty = 0;
-          if (tremorAmp > 0 && tremorFreq > 0) {
-              const tSec = currentTime / 1000;
-              tx = tremorAmp * Math.sin(tSec * tremorFreq * Math.PI * 2);
-              ty = tremorAmp * Math.cos(tSec * tremorFreq * Math.PI * 2);
-          }
+          currentTime = startTime + strokeTimes[i];
 
           // Calculate Width
           // If z exists, it's relative to width. Convert to pixels.
@@ -107,68 +374,61 @@ export const generateMotionPlan = (
           }
           
           // Calculate Opacity
-          const pointOpacity = p.a !== undefined ? p.a : 1.0;
-
-          if (i === 0) {
-              physicsPoints.push({
-                  x: p.x + tx,
-                  y: p.y + ty,
-                  time: currentTime, 
-                  lineWidth: pointWidth, 
-                  opacity: pointOpacity
-              });
-              continue;
-          }
-
-          const prev = processedPoints[i-1];
-          const d = dist(p, prev);
-          
-          // Speed Modulation
-          let speedPenalty = 1;
-          if (i > 1 && inertia > 0) {
-             const prevPrev = processedPoints[i-2];
-             const v1x = prev.x - prevPrev.x;
-             const v1y = prev.y - prevPrev.y;
-             const v2x = p.x - prev.x;
-             const v2y = p.y - prev.y;
-             
-             const mag1 = Math.sqrt(v1x*v1x + v1y*v1y);
-             const mag2 = Math.sqrt(v2x*v2x + v2y*v2y);
-             
-             if (mag1 > 0.001 && mag2 > 0.001) {
-                 const dot = v1x*v2x + v1y*v2y;
-                 const cosTheta = Math.max(-1, Math.min(1, dot / (mag1 * mag2)));
-                 const angle = Math.acos(cosTheta); 
-                 speedPenalty = 1 + (angle * inertia); 
-             }
-          }
+          let pointOpacity = p.a !== undefined ? p.a : 1.0;
 
-          const dt = Math.max(0.01, d * baseMsPerPx * speedPenalty);
-          currentTime += dt;
-
-          if (tremorAmp > 0 && tremorFreq > 0) {
-              const tSec = currentTime / 1000;
-              tx = tremorAmp * Math.sin(tSec * tremorFreq * Math.PI * 2);
-              ty = tremorAmp * Math.cos(tSec * tremorFreq * Math.PI * 2);
+          // Pressure: recorded values win over the style's curve
+          const progress = strokeLength > 0 ? arcLengths[i] / strokeLength : 0;
+          const pressure = p.pressure ?? (pressureCurve ? pressureCurve(progress) : undefined);
+          if (pressure !== undefined) {
+             const blend = p.z !== undefined ? PRESSURE_BLEND_TRACED : 1;
+             pointWidth *= 1 - blend + blend * pressure;
+             pointOpacity *= 1 - PRESSURE_OPACITY + PRESSURE_OPACITY * pressure;
           }
 
           physicsPoints.push({
-              x: p.x + tx, 
-              y: p.y + ty, 
+              x: p.x, 
+              y: p.y, 
               time: currentTime, 
               lineWidth: pointWidth, 
               opacity: pointOpacity
           });
       }
 
+      applyEasing(physicsPoints, startTime, currentTime, easeStart, easeEnd);
+
+      // Apply Tremor, after easing so it runs at its frequency in the final timing
+      if (tremorAmp > 0 && tremorFreq > 0) {
+          for (const p of physicsPoints) {
+              const tSec = p.time / 1000;
+              p.x += tremorAmp * Math.sin(tSec * tremorFreq * Math.PI * 2);
+              p.y += tremorAmp * Math.cos(tSec * tremorFreq * Math.PI * 2);
+          }
+      }
+
+      // 5. Overshoot Tail (sized by intensity, short strokes get short tails)
+      let tailStart: number | undefined;
+      if (overshoot > 0) {
+          const tailLength = overshoot * Math.min(strokeLength * 0.5, canvasWidth * OVERSHOOT_MAX_FRACTION);
+          const tail = buildOvershootTail(physicsPoints, tailLength, baseMsPerPx);
+          if (tail.length > 0) {
+              tailStart = physicsPoints.length - 1;
+              physicsPoints.push(...tail);
+              currentTime = tail[tail.length - 1].time;
+          }
+      }
+
+      pushAirStroke(index, liftStart, startTime, physicsPoints);
+
       paths.push({
           id: `stroke-${index}`,
           points: physicsPoints,
           startTime,
-          endTime: currentTime
+          endTime: currentTime,
+          tailStart
       });
 
-      prevEndPos = processedPoints[processedPoints.length - 1];
+      // Where the pen actually leaves the paper, after any tail and tremor; the air path starts here too
+      prevEndPos = physicsPoints[physicsPoints.length - 1];
   });
 
   return paths;
@@ -0,0 +1,160 @@
+
+// Writing-instrument sprites for the playback overlay. Built-ins are drawn
+// procedurally; all sprites are rendered once into a canvas with the writing
+// tip at (tipX, tipY) and the instrument reaching up and to the right.
+export type PenToolKind = 'none' | 'ballpoint' | 'fountain' | 'quill' | 'hand' | 'custom';
+
+export interface PenSprite {
+  image: HTMLCanvasElement;
+  tipX: number;
+  tipY: number;
+}
+
+const SPRITE_SIZE = 128;
+const TIP_INSET = 4;
+// Instrument axis, pointing from the tip up and to the right
+const AXIS_ANGLE = -Math.PI / 4;
+
+// Helper: Canvas with the context moved onto the instrument axis (tip at origin, +x along the barrel)
+const spriteCanvas = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SPRITE_SIZE;
+  canvas.height = SPRITE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.translate(TIP_INSET, SPRITE_SIZE - TIP_INSET);
+  ctx.rotate(AXIS_ANGLE);
+  return { canvas, ctx };
+};
+
+const drawBallpoint = (ctx: CanvasRenderingContext2D) => {
+  // Metal cone
+  ctx.fillStyle = '#9ca3af';
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(18, -5);
+  ctx.lineTo(18, 5);
+  ctx.closePath();
+  ctx.fill();
+  // Grip and barrel
+  ctx.fillStyle = '#1f2937';
+  ctx.fillRect(18, -6, 22, 12);
+  ctx.fillStyle = '#2563eb';
+  ctx.fillRect(40, -6, 110, 12);
+  // Highlight and clip
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.fillRect(40, -4, 110, 2);
+  ctx.fillStyle = '#1e3a8a';
+  ctx.fillRect(100, -8, 40, 3);
+};
+
+const drawFountain = (ctx: CanvasRenderingContext2D) => {
+  // Gold nib with its slit and breather hole
+  ctx.fillStyle = '#d4a017';
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.quadraticCurveTo(12, -9, 26, -8);
+  ctx.lineTo(26, 8);
+  ctx.quadraticCurveTo(12, 9, 0, 0);
+  ctx.fill();
+  ctx.strokeStyle = '#7c5a05';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(1, 0);
+  ctx.lineTo(16, 0);
+  ctx.stroke();
+  ctx.fillStyle = '#7c5a05';
+  ctx.beginPath();
+  ctx.arc(17, 0, 1.5, 0, Math.PI * 2);
+  ctx.fill();
+  // Section and lacquered barrel
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(26, -7, 20, 14);
+  ctx.fillStyle = '#450a0a';
+  ctx.fillRect(46, -8, 104, 16);
+  ctx.fillStyle = '#d4a017';
+  ctx.fillRect(46, -8, 3, 16);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+  ctx.fillRect(49, -5, 101, 2);
+};
+
+const drawQuill = (ctx: CanvasRenderingContext2D) => {
+  // Vane, wider on one side like a real flight feather
+  ctx.fillStyle = '#f5f0e1';
+  ctx.strokeStyle = '#a8a29e';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(30, 0);
+  ctx.bezierCurveTo(60, -26, 120, -30, 165, -6);
+  ctx.bezierCurveTo(120, 6, 70, 12, 30, 0);
+  ctx.fill();
+  ctx.stroke();
+  // Barbs
+  ctx.strokeStyle = 'rgba(120, 113, 108, 0.5)';
+  for (let x = 40; x < 160; x += 8) {
+    ctx.beginPath();
+    ctx.moveTo(x, -1);
+    ctx.lineTo(x + 10, -14 * Math.sin(((x - 30) / 135) * Math.PI));
+    ctx.stroke();
+  }
+  // Shaft, cut to a point at the tip
+  ctx.strokeStyle = '#78716c';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  ctx.lineTo(170, -4);
+  ctx.stroke();
+};
+
+const drawHand = (ctx: CanvasRenderingContext2D) => {
+  const skin = '#e0ac8a';
+  const crease = '#b7835f';
+  const blob = (x: number, y: number, rx: number, ry: number, rotation: number) => {
+    ctx.fillStyle = skin;
+    ctx.strokeStyle = crease;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.ellipse(x, y, rx, ry, rotation, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  };
+  // Palm and back of the hand, behind the pen
+  blob(76, 18, 40, 26, 0.2);
+  drawBallpoint(ctx);
+  // Index finger along the barrel, thumb opposite it, middle finger curled under
+  blob(40, -9, 24, 7, 0.05);
+  blob(44, 11, 20, 8, -0.25);
+  blob(52, 26, 16, 9, 0.6);
+};
+
+const BUILT_IN: Record<Exclude<PenToolKind, 'none' | 'custom'>, (ctx: CanvasRenderingContext2D) => void> = {
+  ballpoint: drawBallpoint,
+  fountain: drawFountain,
+  quill: drawQuill,
+  hand: drawHand
+};
+
+/**
+ * Renders the sprite for a tool. 'custom' uses the uploaded image, scaled to the
+ * sprite size, with its bottom-left corner as the writing tip. Returns null for
+ * 'none' or a custom tool without an image.
+ */
+export const createPenSprite = (kind: PenToolKind, customImage?: HTMLImageElement | null): PenSprite | null => {
+  if (kind === 'none') return null;
+
+  if (kind === 'custom') {
+    if (!customImage || !customImage.width || !customImage.height) return null;
+    const scale = SPRITE_SIZE / Math.max(customImage.width, customImage.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(customImage.width * scale);
+    canvas.height = Math.round(customImage.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    ctx.drawImage(customImage, 0, 0, canvas.width, canvas.height);
+    return { image: canvas, tipX: 0, tipY: canvas.height };
+  }
+
+  const { canvas, ctx } = spriteCanvas();
+  BUILT_IN[kind](ctx);
+  return { image: canvas, tipX: TIP_INSET, tipY: SPRITE_SIZE - TIP_INSET };
+};
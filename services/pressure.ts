@@ -0,0 +1,30 @@
+import { lookupByName } from './lookup';
+
+// Pen pressure profiles for HandwritingStyle.pressure_curve.
+// Each maps progress along the stroke (arc length, 0 = pen-down, 1 = pen-up) to
+// pressure in [0, 1]. All of them start and end light so strokes taper in and out.
+export type PressureCurve = (t: number) => number;
+
+// Pressure at the very ends of a stroke, the nib never fully leaves the paper mid-stroke
+const ENTRY_PRESSURE = 0.35;
+
+// Helper: Smooth 0 -> 1 -> 0 envelope, flat-ish in the middle
+const bell = (t: number) => Math.sin(Math.PI * Math.min(1, Math.max(0, t))) ** 0.5;
+
+export const PRESSURE_CURVES: Record<string, PressureCurve> = {
+  // Quick soft landing, full pressure through the body, gentle lift
+  'soft-peaked': (t) => ENTRY_PRESSURE + (1 - ENTRY_PRESSURE) * bell(t),
+  // Pressure builds linearly to a peak a third of the way in, then bleeds off until pen-up
+  'triangular': (t) => {
+    const PEAK = 0.33;
+    const rise = t < PEAK ? t / PEAK : (1 - t) / (1 - PEAK);
+    return ENTRY_PRESSURE + (1 - ENTRY_PRESSURE) * Math.min(1, Math.max(0, rise));
+  },
+  // Rhythmic swell and release (brush or flexible nib), inside the same tapered envelope
+  'waveform': (t) => {
+    const wave = 0.8 + 0.2 * Math.sin(t * Math.PI * 2 * 3);
+    return ENTRY_PRESSURE + (1 - ENTRY_PRESSURE) * bell(t) * wave;
+  }
+};
+
+export const getPressureCurve = (name: string): PressureCurve => lookupByName(PRESSURE_CURVES, name, 'pressure curve');
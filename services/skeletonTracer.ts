@@ -0,0 +1,332 @@
+interface Point { x: number, y: number }
+
+// 8-neighbourhood in Zhang-Suen order: N, NE, E, SE, S, SW, W, NW
+const NEIGHBOR_DX = [0, 1, 1, 1, 0, -1, -1, -1];
+const NEIGHBOR_DY = [-1, -1, 0, 1, 1, 1, 0, -1];
+
+// Orthogonal neighbours first so the walk does not cut staircase corners
+const WALK_ORDER = [0, 2, 4, 6, 1, 3, 5, 7];
+
+// Junction continuation: pixels used to estimate the heading on either side
+// of a junction, and the minimum cosine between the incoming and outgoing
+// heading (~60 degrees) for the walk to carry on through it
+const HEADING_SPAN = 6;
+const CONTINUITY_COS = 0.5;
+
+// Helper: Read the 8 neighbours of a pixel (0/1), out of bounds counts as background
+const readNeighbors = (mask: Uint8Array, width: number, height: number, x: number, y: number, out: number[]) => {
+  for (let k = 0; k < 8; k++) {
+    const nx = x + NEIGHBOR_DX[k];
+    const ny = y + NEIGHBOR_DY[k];
+    out[k] = (nx >= 0 && nx < width && ny >= 0 && ny < height && mask[ny * width + nx] > 0) ? 1 : 0;
+  }
+};
+
+// Helper: Number of 0 -> 1 transitions around the pixel (connectivity number)
+const countTransitions = (n: number[]) => {
+  let transitions = 0;
+  for (let k = 0; k < 8; k++) {
+    if (n[k] === 0 && n[(k + 1) % 8] === 1) transitions++;
+  }
+  return transitions;
+};
+
+// Helper: Yokoi 8-connectivity number. 1 means removing the pixel keeps its neighbours connected
+const connectivity8 = (n: number[]) => {
+  let c = 0;
+  for (let k = 0; k < 8; k += 2) {
+    const a = 1 - n[k];
+    const b = 1 - n[(k + 1) % 8];
+    const d = 1 - n[(k + 2) % 8];
+    c += a - a * b * d;
+  }
+  return c;
+};
+
+/**
+ * Zhang-Suen thinning. Reduces every ink region of the bitmask to a
+ * one-pixel wide centerline. Returns a new 0/1 mask, the input is untouched.
+ */
+export const thinBitmask = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const skel = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) skel[i] = mask[i] > 0 ? 1 : 0;
+
+  const n = new Array<number>(8).fill(0);
+  const toClear: number[] = [];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let pass = 0; pass < 2; pass++) {
+      toClear.length = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const idx = y * width + x;
+          if (skel[idx] === 0) continue;
+
+          readNeighbors(skel, width, height, x, y, n);
+          const count = n[0] + n[1] + n[2] + n[3] + n[4] + n[5] + n[6] + n[7];
+          if (count < 2 || count > 6) continue;
+          if (countTransitions(n) !== 1) continue;
+
+          if (pass === 0) {
+            if (n[0] * n[2] * n[4] !== 0 || n[2] * n[4] * n[6] !== 0) continue;
+          } else {
+            if (n[0] * n[2] * n[6] !== 0 || n[0] * n[4] * n[6] !== 0) continue;
+          }
+          toClear.push(idx);
+        }
+      }
+      for (const idx of toClear) skel[idx] = 0;
+      if (toClear.length > 0) changed = true;
+    }
+  }
+
+  // Staircase cleanup: Zhang-Suen leaves L-shaped corners on diagonals which
+  // would otherwise read as false junctions. Removed in place so that only one
+  // pixel of each corner goes.
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      if (skel[idx] === 0) continue;
+      readNeighbors(skel, width, height, x, y, n);
+      const count = n[0] + n[1] + n[2] + n[3] + n[4] + n[5] + n[6] + n[7];
+      if (count < 2 || connectivity8(n) !== 1) continue;
+      const isCorner = (n[0] && n[2]) || (n[2] && n[4]) || (n[4] && n[6]) || (n[6] && n[0]);
+      if (isCorner) skel[idx] = 0;
+    }
+  }
+
+  return skel;
+};
+
+export interface SkeletonTraceOptions {
+  minSpurLength?: number;  // Shorter paths ending at a junction are pruned as spurs (default 8)
+  junctionRadius?: number; // Skeleton pixels this close to a junction belong to its cluster (default 6)
+  onPath?: (usedPixels: number, totalPixels: number, pathCount: number) => void;
+}
+
+/**
+ * Walks a one-pixel skeleton as a graph. Paths run from endpoints to the
+ * next endpoint, remaining branches are picked up from the junctions and
+ * closed loops last. At a junction or crossing the walk carries on into the
+ * unvisited branch that best continues the incoming heading, so a loop or a
+ * self-crossing stroke comes out as one path. Short spurs hanging off
+ * junctions (thinning artefacts at stroke ends) are pruned.
+ */
+export const traceSkeletonPaths = (
+  skel: Uint8Array,
+  width: number,
+  height: number,
+  options: SkeletonTraceOptions = {}
+): Point[][] => {
+  const { minSpurLength = 8, junctionRadius = 6, onPath } = options;
+  const degree = new Uint8Array(skel.length);
+  const n = new Array<number>(8).fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x;
+      if (skel[idx] === 0) continue;
+      readNeighbors(skel, width, height, x, y, n);
+      degree[idx] = n[0] + n[1] + n[2] + n[3] + n[4] + n[5] + n[6] + n[7];
+    }
+  }
+
+  const isJunction = (idx: number) => degree[idx] >= 3;
+  const used = new Uint8Array(skel.length);
+  const paths: Point[][] = [];
+
+  let totalPixels = 0;
+  for (let idx = 0; idx < skel.length; idx++) totalPixels += skel[idx];
+  let usedPixels = 0;
+  const markUsed = (idx: number) => {
+    if (used[idx] === 0) {
+      used[idx] = 1;
+      usedPixels++;
+    }
+  };
+
+  const neighborsOf = (idx: number): number[] => {
+    const x = idx % width;
+    const y = Math.floor(idx / width);
+    const result: number[] = [];
+    for (const k of WALK_ORDER) {
+      const nx = x + NEIGHBOR_DX[k];
+      const ny = y + NEIGHBOR_DY[k];
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      const nIdx = ny * width + nx;
+      if (skel[nIdx] === 1) result.push(nIdx);
+    }
+    return result;
+  };
+
+  // Junction clusters: every skeleton pixel within junctionRadius of a junction.
+  // An acute crossing thins into two forks joined by a short bridge, grouping
+  // them lets a walk pass the crossing more than once.
+  const clusterId = new Int32Array(skel.length).fill(-1);
+  const clusters: number[][] = [];
+
+  const junctionCluster = (idx: number): number => {
+    if (clusterId[idx] >= 0) return clusterId[idx];
+    const id = clusters.length;
+    const sx = idx % width;
+    const sy = Math.floor(idx / width);
+    const cluster = [idx];
+    clusterId[idx] = id;
+    for (let ptr = 0; ptr < cluster.length; ptr++) {
+      for (const nIdx of neighborsOf(cluster[ptr])) {
+        if (clusterId[nIdx] >= 0) continue;
+        if (Math.hypot(nIdx % width - sx, Math.floor(nIdx / width) - sy) > junctionRadius) continue;
+        clusterId[nIdx] = id;
+        cluster.push(nIdx);
+      }
+    }
+    for (const cIdx of cluster) markUsed(cIdx);
+    clusters.push(cluster);
+    return id;
+  };
+
+  // Unvisited pixels leaving a cluster, with the cluster pixel they hang off
+  const clusterExits = (id: number): { exit: number, from: number }[] => {
+    const exits: { exit: number, from: number }[] = [];
+    for (const idx of clusters[id]) {
+      for (const nIdx of neighborsOf(idx)) {
+        if (clusterId[nIdx] === id || used[nIdx] !== 0 || isJunction(nIdx)) continue;
+        if (!exits.some(e => e.exit === nIdx)) exits.push({ exit: nIdx, from: idx });
+      }
+    }
+    return exits;
+  };
+
+  const clusterCenter = (id: number): Point => {
+    let cx = 0, cy = 0;
+    for (const idx of clusters[id]) {
+      cx += idx % width;
+      cy += Math.floor(idx / width);
+    }
+    return { x: cx / clusters[id].length, y: cy / clusters[id].length };
+  };
+
+  // Follows unvisited skeleton pixels without consuming them
+  const lookAhead = (fromIdx: number, startIdx: number): number => {
+    let prev = fromIdx;
+    let curr = startIdx;
+    for (let step = 0; step < HEADING_SPAN; step++) {
+      const next = neighborsOf(curr).find(nIdx => nIdx !== prev && used[nIdx] === 0 && !isJunction(nIdx));
+      if (next === undefined) break;
+      prev = curr;
+      curr = next;
+    }
+    return curr;
+  };
+
+  // Picks the exit of a cluster that best continues the path's heading
+  const continueThrough = (path: number[], id: number): { exit: number, from: number } | null => {
+    const tail = path[Math.max(0, path.length - 1 - HEADING_SPAN)];
+    const center = clusterCenter(id);
+    const inX = center.x - tail % width;
+    const inY = center.y - Math.floor(tail / width);
+    const inLen = Math.hypot(inX, inY);
+    if (inLen < 1) return null;
+
+    let best: { exit: number, from: number } | null = null;
+    let bestCos = CONTINUITY_COS;
+    for (const candidate of clusterExits(id)) {
+      const ahead = lookAhead(candidate.from, candidate.exit);
+      const outX = ahead % width - center.x;
+      const outY = Math.floor(ahead / width) - center.y;
+      const outLen = Math.hypot(outX, outY);
+      if (outLen < 1) continue;
+      const cos = (inX * outX + inY * outY) / (inLen * outLen);
+      if (cos > bestCos) {
+        bestCos = cos;
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  const walk = (startIdx: number, fromIdx: number = -1): number[] => {
+    const path = [startIdx];
+    markUsed(startIdx);
+    let prev = fromIdx;
+    let curr = startIdx;
+    // The cluster just passed stays off limits until the walk has moved clear of it
+    let leftCluster = fromIdx >= 0 ? clusterId[fromIdx] : -1;
+    let sinceCluster = 0;
+
+    while (path.length < skel.length) {
+      const candidates = neighborsOf(curr).filter(nIdx => nIdx !== prev);
+      let next = candidates.find(nIdx => used[nIdx] === 0) ?? -1;
+
+      if (next === -1) {
+        // Re-enter an already visited junction (second pass through a crossing), or close a loop
+        const reentry = candidates.find(nIdx => clusterId[nIdx] >= 0 && clusterId[nIdx] !== leftCluster);
+        if (reentry !== undefined && curr !== startIdx) {
+          next = reentry;
+        } else {
+          if (path.length > 3 && candidates.includes(startIdx)) path.push(startIdx);
+          break;
+        }
+      }
+
+      path.push(next);
+      markUsed(next);
+
+      if (isJunction(next) || clusterId[next] >= 0) {
+        const id = junctionCluster(next);
+        const continuation = continueThrough(path, id);
+        if (!continuation) break;
+        path.push(continuation.exit);
+        markUsed(continuation.exit);
+        leftCluster = id;
+        sinceCluster = 0;
+        prev = continuation.from;
+        curr = continuation.exit;
+        continue;
+      }
+
+      if (++sinceCluster > HEADING_SPAN) leftCluster = -1;
+      prev = curr;
+      curr = next;
+    }
+    return path;
+  };
+
+  const toPoints = (path: number[]) => path.map(idx => ({ x: idx % width, y: Math.floor(idx / width) }));
+  const addPath = (path: number[]) => {
+    paths.push(toPoints(path));
+    if (onPath) onPath(usedPixels, totalPixels, paths.length);
+  };
+
+  // 1. Open branches, starting at endpoints (raster order)
+  for (let idx = 0; idx < skel.length; idx++) {
+    if (skel[idx] === 1 && used[idx] === 0 && degree[idx] <= 1) {
+      const path = walk(idx);
+      const endsAtJunction = clusterId[path[path.length - 1]] >= 0;
+      if (endsAtJunction && path.length < minSpurLength) continue;
+      addPath(path);
+    }
+  }
+
+  // 2. Branches between junctions
+  for (let idx = 0; idx < skel.length; idx++) {
+    if (skel[idx] === 1 && isJunction(idx)) junctionCluster(idx);
+  }
+  for (let id = 0; id < clusters.length; id++) {
+    for (const { exit, from } of clusterExits(id)) {
+      if (used[exit] !== 0) continue;
+      addPath([from, ...walk(exit, from)]);
+    }
+  }
+
+  // 3. Closed loops (no endpoints, no junctions)
+  for (let idx = 0; idx < skel.length; idx++) {
+    if (skel[idx] === 1 && used[idx] === 0) {
+      addPath(walk(idx));
+    }
+  }
+
+  return paths;
+};
@@ -0,0 +1,129 @@
+
+import { PhysicsPoint, StrokePath } from '../types';
+import { Viewport } from './exportLayout';
+
+// Animated SVG from a motion plan. Each stroke is cut into runs of similar width and
+// opacity; every run is its own <path>, revealed with a stroke-dashoffset animation
+// over the time the pen spends on it. Plays once and holds the finished signature.
+export type SvgAnimationMode = 'css' | 'smil';
+
+export interface SvgExportOptions {
+  width: number;
+  height: number;
+  strokeColor: string;
+  bgColor: string | null; // null leaves the paper out
+  thicknessScale: number;
+  mode: SvgAnimationMode;
+  view?: Viewport;        // Placement of the plan in the document, identity when absent
+}
+
+const WIDTH_STEP = 0.5;    // px, width change that starts a new run
+const OPACITY_STEP = 0.1;
+
+interface Run {
+  points: PhysicsPoint[];
+  width: number;
+  opacity: number;
+}
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+const ms = (n: number) => `${Math.round(n)}ms`;
+
+// Helper: Split a stroke into runs of segments whose width and opacity round the same.
+// Runs share their joining point so the ink has no gaps
+const splitRuns = (points: PhysicsPoint[], thicknessScale: number): Run[] => {
+  const runs: Run[] = [];
+  const key = (p: PhysicsPoint) =>
+    `${Math.round((p.lineWidth * thicknessScale) / WIDTH_STEP)}:${Math.round(p.opacity / OPACITY_STEP)}`;
+
+  let current: PhysicsPoint[] = [points[0]];
+  let currentKey = key(points[0]);
+  for (let i = 1; i < points.length; i++) {
+    // Segments take the width of their first point, like the canvas renderer
+    const segmentKey = key(points[i - 1]);
+    if (segmentKey !== currentKey && current.length > 1) {
+      runs.push(toRun(current, thicknessScale));
+      current = [points[i - 1]];
+    }
+    currentKey = segmentKey;
+    current.push(points[i]);
+  }
+  if (current.length > 1) runs.push(toRun(current, thicknessScale));
+  return runs;
+};
+
+const toRun = (points: PhysicsPoint[], thicknessScale: number): Run => {
+  const segments = points.slice(0, -1);
+  const width = segments.reduce((sum, p) => sum + p.lineWidth, 0) / segments.length;
+  const opacity = segments.reduce((sum, p) => sum + p.opacity, 0) / segments.length;
+  return { points, width: width * thicknessScale, opacity };
+};
+
+const pathData = (points: PhysicsPoint[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join(' ');
+
+/**
+ * Builds the SVG document. Air paths are left out. 'css' animates with keyframes in a
+ * <style> block, 'smil' with <animate>/<set> elements for viewers without CSS animation.
+ */
+export const buildAnimatedSvg = (paths: StrokePath[], options: SvgExportOptions): string => {
+  const { width, height, strokeColor, bgColor, thicknessScale, mode, view } = options;
+  const elements: string[] = [];
+
+  // Hidden until its start time, so round caps don't show as dots beforehand
+  const css = (start: number, duration: number, dashed: boolean) => {
+    const d = Math.max(1, duration);
+    const draw = dashed ? `draw ${ms(d)} linear ${ms(start)} both, ` : '';
+    return ` style="animation: ${draw}show ${ms(d)} step-start ${ms(start)} forwards"`;
+  };
+  const smil = (start: number, duration: number, dashed: boolean) => {
+    const d = Math.max(1, duration);
+    const set = `<set attributeName="visibility" to="visible" begin="${ms(start)}" fill="freeze"/>`;
+    if (!dashed) return set;
+    return `${set}<animate attributeName="stroke-dashoffset" from="1" to="0" begin="${ms(start)}" dur="${ms(d)}" fill="freeze"/>`;
+  };
+  const element = (tag: string, attrs: string, start: number, duration: number, dashed: boolean) =>
+    mode === 'css'
+      ? `<${tag} ${attrs}${css(start, duration, dashed)}/>`
+      : `<${tag} ${attrs}>${smil(start, duration, dashed)}</${tag}>`;
+
+  for (const path of paths) {
+    if (path.type === 'air' || path.points.length < 2) continue;
+
+    if (path.type === 'dot') {
+      const [p] = path.points;
+      const r = Math.max(0.5, (p.lineWidth * thicknessScale) / 2);
+      elements.push(element('circle',
+        `class="ink" cx="${fmt(p.x)}" cy="${fmt(p.y)}" r="${fmt(r)}" fill-opacity="${fmt(p.opacity)}"`,
+        path.startTime, path.endTime - path.startTime, false));
+      continue;
+    }
+
+    for (const run of splitRuns(path.points, thicknessScale)) {
+      const start = run.points[0].time;
+      const end = run.points[run.points.length - 1].time;
+      elements.push(element('path',
+        `class="ink stroke" d="${pathData(run.points)}" pathLength="1" stroke-width="${fmt(run.width)}" stroke-opacity="${fmt(run.opacity)}"`,
+        start, end - start, true));
+    }
+  }
+
+  const style = [
+    `.ink { visibility: hidden; fill: ${strokeColor}; }`,
+    `.stroke { fill: none; stroke: ${strokeColor}; stroke-linecap: round; stroke-linejoin: round; stroke-dasharray: 1 1; stroke-dashoffset: 1; }`,
+    ...(mode === 'css' ? [
+      `@keyframes draw { from { stroke-dashoffset: 1; } to { stroke-dashoffset: 0; } }`,
+      `@keyframes show { from, to { visibility: visible; } }`
+    ] : [])
+  ];
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<style>${style.join(' ')}</style>`,
+    ...(bgColor ? [`<rect width="100%" height="100%" fill="${bgColor}"/>`] : []),
+    ...(view ? [`<g transform="matrix(${fmt(view.scale)} 0 0 ${fmt(view.scale)} ${fmt(view.x)} ${fmt(view.y)})">`] : []),
+    ...elements,
+    ...(view ? ['</g>'] : []),
+    `</svg>`
+  ].join('\n');
+};
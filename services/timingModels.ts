@@ -0,0 +1,134 @@
+import { lookupByName } from './lookup';
+
+// Timing models for the motion planner. A model decides when the pen reaches
+// each point of a stroke; the planner layers easing, tremor and tails on top.
+export type TimingModelName = 'ms-per-px' | 'sigma-lognormal';
+
+export interface TimingParams {
+  baseMsPerPx: number;
+  inertia: number;        // Slow-down at direction changes
+  speedMultiplier: number;
+}
+
+// Time (ms) from pen-down at which the pen reaches each point. The first entry is 0
+// and the list never decreases.
+export type TimingModel = (points: { x: number, y: number }[], params: TimingParams) => number[];
+
+const dist = (p1: { x: number, y: number }, p2: { x: number, y: number }) => Math.hypot(p1.x - p2.x, p1.y - p2.y);
+
+// Helper: Turn angle (rad) at interior point i
+const turnAngle = (points: { x: number, y: number }[], i: number) => {
+  const v1x = points[i].x - points[i - 1].x, v1y = points[i].y - points[i - 1].y;
+  const v2x = points[i + 1].x - points[i].x, v2y = points[i + 1].y - points[i].y;
+  const mag1 = Math.hypot(v1x, v1y), mag2 = Math.hypot(v2x, v2y);
+  if (mag1 <= 0.001 || mag2 <= 0.001) return 0;
+  const cosTheta = Math.max(-1, Math.min(1, (v1x * v2x + v1y * v2y) / (mag1 * mag2)));
+  return Math.acos(cosTheta);
+};
+
+/**
+ * Constant speed per pixel, slowed at corners by the inertia penalty.
+ * The original planner timing and the default.
+ */
+const msPerPx: TimingModel = (points, { baseMsPerPx, inertia }) => {
+  const times = [0];
+  let t = 0;
+  for (let i = 1; i < points.length; i++) {
+    const d = dist(points[i], points[i - 1]);
+    const speedPenalty = i > 1 && inertia > 0 ? 1 + turnAngle(points, i - 1) * inertia : 1;
+    t += Math.max(0.01, d * baseMsPerPx * speedPenalty);
+    times.push(t);
+  }
+  return times;
+};
+
+// --- SIGMA-LOGNORMAL ---
+// Plamondon's kinematic theory: a stroke is a chain of overlapping submovements, each with
+// a lognormal speed profile (fast rise, slower decay). Submovements break at curvature
+// peaks, so the pen slows into tight turns and cruises along straight runs.
+const LOGNORMAL_SIGMA = 0.3;
+const LOGNORMAL_SPREAD = 2.5;     // Support of a submovement, in sigmas either side of its log-time mean
+const BREAK_ANGLE = 0.6;          // rad, turn that starts a new submovement (at zero inertia)
+const SUBMOVEMENT_OVERLAP = 0.3;  // Fraction of a submovement the next one starts before it ends
+const MIN_SUBMOVEMENT_MS = 40;
+
+// Helper: Standard normal CDF (Abramowitz & Stegun 7.1.26 erf)
+const normalCdf = (x: number) => {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+interface Submovement {
+  distance: number; // px along the stroke
+  t0: number;       // Lognormal time origin (ms)
+  mu: number;
+}
+
+const sigmaLognormal: TimingModel = (points, { baseMsPerPx, inertia, speedMultiplier }) => {
+  const n = points.length;
+  if (n < 2) return n === 1 ? [0] : [];
+
+  const arc = [0];
+  for (let i = 1; i < n; i++) arc.push(arc[i - 1] + dist(points[i], points[i - 1]));
+  const total = arc[n - 1];
+  if (total <= 0) return arc.map(() => 0);
+
+  // Split at local curvature peaks, a heavier pen (inertia) breaks at gentler turns
+  const breakAngle = BREAK_ANGLE / (1 + Math.max(0, inertia));
+  const angles = points.map((_, i) => (i > 0 && i < n - 1 ? turnAngle(points, i) : 0));
+  const breaks = [0];
+  for (let i = 1; i < n - 1; i++) {
+    if (angles[i] >= breakAngle && angles[i] >= angles[i - 1] && angles[i] > angles[i + 1]) breaks.push(i);
+  }
+  breaks.push(n - 1);
+
+  // Lognormal support [exp(mu - k sigma), exp(mu + k sigma)] spans the submovement's duration
+  const spanFactor = Math.exp(LOGNORMAL_SPREAD * LOGNORMAL_SIGMA) - Math.exp(-LOGNORMAL_SPREAD * LOGNORMAL_SIGMA);
+  const speed = speedMultiplier > 0 ? speedMultiplier : 1;
+  const submovements: Submovement[] = [];
+  let onset = 0;
+  let end = 0;
+  for (let k = 1; k < breaks.length; k++) {
+    const distance = arc[breaks[k]] - arc[breaks[k - 1]];
+    if (distance <= 0) continue;
+    const duration = Math.max(MIN_SUBMOVEMENT_MS, distance * baseMsPerPx) / speed;
+    const scale = duration / spanFactor;
+    submovements.push({
+      distance,
+      t0: onset - scale * Math.exp(-LOGNORMAL_SPREAD * LOGNORMAL_SIGMA),
+      mu: Math.log(scale)
+    });
+    end = onset + duration;
+    onset += duration * (1 - SUBMOVEMENT_OVERLAP);
+  }
+
+  // Distance covered by time t, the sum of the submovements' lognormal CDFs
+  const covered = (t: number) => submovements.reduce((sum, m) =>
+    t > m.t0 ? sum + m.distance * normalCdf((Math.log(t - m.t0) - m.mu) / LOGNORMAL_SIGMA) : sum, 0);
+
+  // Invert per point. Rescale so the stroke ends exactly at `end` (the CDF tails never quite reach 1)
+  const coveredAtEnd = covered(end);
+  const times = [0];
+  let lo = 0;
+  for (let i = 1; i < n; i++) {
+    if (i === n - 1) { times.push(end); break; }
+    const target = (arc[i] / total) * coveredAtEnd;
+    let hi = end;
+    for (let iter = 0; iter < 40; iter++) {
+      const mid = (lo + hi) / 2;
+      if (covered(mid) < target) lo = mid; else hi = mid;
+    }
+    times.push(hi);
+    lo = hi;
+  }
+  return times;
+};
+
+export const TIMING_MODELS: Record<TimingModelName, TimingModel> = {
+  'ms-per-px': msPerPx,
+  'sigma-lognormal': sigmaLognormal
+};
+
+export const getTimingModel = (name: string): TimingModel => lookupByName(TIMING_MODELS, name, 'timing model');
@@ -0,0 +1,1058 @@
+
+import { SignatureAnalysis, Stroke, RawPoint, StrokeOrder } from '../types';
+import { thinBitmask, traceSkeletonPaths } from './skeletonTracer';
+import { binarizeInk, ThresholdMethod } from './binarization';
+import { distanceTransform, estimateStrokeWidth } from './distanceTransform';
+
+interface Point { x: number, y: number }
+
+// 'walker': greedy centroid walker that eats ink with a round pen
+// 'skeleton': thins the bitmask to a centerline and walks the skeleton graph
+export type TracingMode = 'walker' | 'skeleton';
+
+export interface LocalTracerOptions {
+  mode?: TracingMode;
+  order?: StrokeOrder;
+  threshold?: ThresholdMethod;
+  inkHue?: number;          // Keep only ink of this hue (degrees 0-360), e.g. 220 for blue ballpoint
+  inkHueTolerance?: number; // Allowed hue distance in degrees (default 30)
+  removeRuledLines?: boolean; // Drop long straight horizontal/vertical lines (form boxes, ruling)
+}
+
+// Helper: Squared Distance
+const distSq = (p1: RawPoint, p2: RawPoint) => (p1.x - p2.x)**2 + (p1.y - p2.y)**2;
+
+// Helper: Weighted Smoothing with Thickness/Opacity
+// Weights: 0.1, 0.8, 0.1 (Reduced from 0.15, 0.7, 0.15 to preserve corners)
+const smoothPoints = (points: RawPoint[]): RawPoint[] => {
+  if (points.length < 3) return points;
+  
+  const result: RawPoint[] = [points[0]]; // Start point fixed
+  
+  for (let i = 1; i < points.length - 1; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    const next = points[i + 1];
+    
+    // Smooth positions (Less aggressive)
+    const nx = Math.round(0.1 * prev.x + 0.8 * curr.x + 0.1 * next.x);
+    const ny = Math.round(0.1 * prev.y + 0.8 * curr.y + 0.1 * next.y);
+
+    // Smooth attributes if they exist
+    let nz = curr.z;
+    let na = curr.a;
+
+    if (curr.z !== undefined && prev.z !== undefined && next.z !== undefined) {
+      nz = 0.1 * prev.z + 0.8 * curr.z + 0.1 * next.z;
+    }
+    if (curr.a !== undefined && prev.a !== undefined && next.a !== undefined) {
+      na = 0.1 * prev.a + 0.8 * curr.a + 0.1 * next.a;
+    }
+
+    result.push({ x: nx, y: ny, z: nz, a: na });
+  }
+  
+  result.push(points[points.length - 1]); // End point fixed
+  return result;
+};
+
+// Helper: Jitter Filter (Denoise)
+const filterJitter = (points: RawPoint[]): RawPoint[] => {
+  if (points.length < 3) return points;
+  
+  let input = points;
+  // Two passes to catch alternating jitter patterns
+  for (let pass = 0; pass < 2; pass++) {
+      const clean: RawPoint[] = [input[0]];
+      
+      for (let i = 1; i < input.length - 1; i++) {
+          const prev = input[i - 1];
+          const curr = input[i];
+          const next = input[i + 1];
+          
+          const d1 = distSq(prev, curr);
+          const d2 = distSq(curr, next);
+          
+          // Threshold: 2500 units squared (~50 units distance on 10000 scale)
+          const SHORT_SEGMENT_SQ = 2500;
+          
+          if (d1 < SHORT_SEGMENT_SQ && d2 < SHORT_SEGMENT_SQ) {
+              const v1x = curr.x - prev.x;
+              const v1y = curr.y - prev.y;
+              const v2x = next.x - curr.x;
+              const v2y = next.y - curr.y;
+              
+              const dot = v1x * v2x + v1y * v2y;
+              const magSq = d1 * d2;
+              
+              // Detect sharp turns (>90 degrees) on short segments
+              if (magSq > 0 && dot < 0) { 
+                  // It's a short, sharp spike (jitter). Skip 'curr' to smooth it out.
+                  continue; 
+              }
+          }
+          clean.push(curr);
+      }
+      clean.push(input[input.length - 1]);
+      
+      if (clean.length < 3) return clean;
+      input = clean;
+  }
+  
+  return input;
+};
+
+// Helper: Natural slant of the writing (degrees, positive = top leans right).
+// Length-weighted median over the near-vertical chords (downstrokes carry the slant). Chords
+// span a few pixels so the pixel staircase of traced points doesn't quantize the angle, and
+// are measured in pixel space since the output coordinates are normalized per axis
+const SLANT_MAX_DEG = 45;
+const SLANT_CHORD_PX = 10;
+const estimateSlant = (strokes: Stroke[], pWidth: number, pHeight: number, outputScale: number): number => {
+  const samples: { angle: number, weight: number }[] = [];
+  const toPx = (p: RawPoint) => ({ x: (p.x / outputScale) * pWidth, y: (p.y / outputScale) * pHeight });
+
+  for (const stroke of strokes) {
+    if (stroke.type === 'dot') continue;
+    let from = toPx(stroke.points[0]);
+    for (let i = 1; i < stroke.points.length; i++) {
+      const to = toPx(stroke.points[i]);
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      if (length < SLANT_CHORD_PX && i < stroke.points.length - 1) continue;
+      from = to;
+      if (length < 1) continue;
+
+      // Orient upwards (image y grows down) and measure from vertical
+      const sign = dy > 0 ? -1 : 1;
+      const angle = Math.atan2(dx * sign, -dy * sign) * 180 / Math.PI;
+      if (Math.abs(angle) <= SLANT_MAX_DEG) samples.push({ angle, weight: length });
+    }
+  }
+  if (samples.length === 0) return 0;
+
+  samples.sort((a, b) => a.angle - b.angle);
+  const half = samples.reduce((sum, s) => sum + s.weight, 0) / 2;
+  let acc = 0;
+  for (const s of samples) {
+    acc += s.weight;
+    if (acc >= half) return s.angle;
+  }
+  return samples[samples.length - 1].angle;
+};
+
+// Helper: Optimize Stroke Order (Multi-Hypothesis)
+// The solver thinks in left-to-right lines. Other scripts are solved in a mirrored ('rtl')
+// or transposed ('ttb') frame and mapped back; both maps are their own inverse.
+const optimizeStrokeOrder = (strokes: Stroke[], order: StrokeOrder = 'ltr'): Stroke[] => {
+  if (strokes.length === 0) return [];
+  
+  // 1. Deep Clone Helper
+  const cloneStrokes = (src: Stroke[]) => src.map(s => ({...s, points: s.points.map(p => ({...p}))}));
+
+  const toFrame = (p: RawPoint): RawPoint => {
+    if (order === 'rtl') return { ...p, x: 10000 - p.x };
+    if (order === 'ttb') return { ...p, x: p.y, y: p.x };
+    return p;
+  };
+  const mapStrokes = (src: Stroke[]) => src.map(s => ({...s, points: s.points.map(toFrame)}));
+
+  // 2. Metadata Helper
+  const getMeta = (s: Stroke) => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    let sumX = 0, sumY = 0;
+    for (const p of s.points) {
+        if (p.x < minX) minX = p.x;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.y > maxY) maxY = p.y;
+        sumX += p.x;
+        sumY += p.y;
+    }
+    return {
+        stroke: s,
+        cx: sumX / s.points.length,
+        cy: sumY / s.points.length,
+        minX, maxX, minY, maxY,
+        width: maxX - minX,
+        height: maxY - minY,
+        start: s.points[0],
+        end: s.points[s.points.length - 1]
+    };
+  };
+
+  // 3. Identify & Separate Decorations (Underlines)
+  const initialMeta = strokes.map(getMeta);
+  let globalMinX = Infinity, globalMaxX = -Infinity, globalMinY = Infinity, globalMaxY = -Infinity;
+  initialMeta.forEach(m => {
+      if (m.minX < globalMinX) globalMinX = m.minX;
+      if (m.maxX > globalMaxX) globalMaxX = m.maxX;
+      if (m.minY < globalMinY) globalMinY = m.minY;
+      if (m.maxY > globalMaxY) globalMaxY = m.maxY;
+  });
+  const totalW = globalMaxX - globalMinX;
+  const totalH = globalMaxY - globalMinY;
+  
+  const underlineIndices = new Set<number>();
+  const headlineIndices = new Set<number>();
+  initialMeta.forEach((m, i) => {
+     const isWide = m.width > totalW * 0.35;
+     const isLow = m.cy > globalMinY + totalH * 0.65;
+     const isHigh = m.cy < globalMinY + totalH * 0.35;
+     const isFlat = m.width > m.height * 2.5;
+     if (isWide && isLow && isFlat) underlineIndices.add(i);
+     else if (order === 'headline-first' && isWide && isHigh && isFlat) headlineIndices.add(i);
+  });
+
+  // Decorations are drawn along the writing direction
+  const orientDecorations = (src: Stroke[]) => src.map(s => {
+     const start = s.points[0];
+     const end = s.points[s.points.length - 1];
+     const backwards = order === 'rtl' ? end.x > start.x : end.x < start.x;
+     return backwards ? { ...s, points: [...s.points].reverse() } : s;
+  });
+
+  // 4. Solver Function
+  const solve = (inputStrokes: Stroke[], useBias: boolean): Stroke[] => {
+      const pool = inputStrokes.map(getMeta);
+      if (pool.length === 0) return [];
+      
+      pool.sort((a, b) => a.minX - b.minX);
+      
+      const result: Stroke[] = [];
+      let curr = pool.shift()!;
+      
+      if (curr.end.x < curr.start.x && curr.width > curr.height) {
+          curr.stroke.points.reverse();
+          const t = curr.start; curr.start = curr.end; curr.end = t;
+      }
+      result.push(curr.stroke);
+      
+      while (pool.length > 0) {
+          let bestIdx = -1;
+          let bestCost = Infinity;
+          let reverseBest = false;
+          
+          for (let i = 0; i < pool.length; i++) {
+              const cand = pool[i];
+              const dStart = distSq(curr.end, cand.start);
+              const dEnd = distSq(curr.end, cand.end);
+              
+              const backwardThresh = 500; 
+              const isBackStart = cand.cx < curr.end.x - backwardThresh;
+              const isBackEnd = cand.cx < curr.end.x - backwardThresh; 
+              
+              let costStart = dStart;
+              let costEnd = dEnd;
+              
+              if (useBias) {
+                  if (isBackStart && dStart > 2500) costStart *= 5.0;
+                  if (isBackEnd && dEnd > 2500) costEnd *= 5.0;
+                  const yDiff = Math.abs(cand.cy - curr.cy);
+                  costStart += yDiff * 5; 
+                  costEnd += yDiff * 5;
+              }
+              
+              if (costStart < bestCost) {
+                  bestCost = costStart;
+                  bestIdx = i;
+                  reverseBest = false;
+              }
+              if (costEnd < bestCost) {
+                  bestCost = costEnd;
+                  bestIdx = i;
+                  reverseBest = true;
+              }
+          }
+          
+          if (bestIdx !== -1) {
+              const winner = pool[bestIdx];
+              pool.splice(bestIdx, 1);
+              if (reverseBest) {
+                  winner.stroke.points.reverse();
+                  const t = winner.start; winner.start = winner.end; winner.end = t;
+              }
+              result.push(winner.stroke);
+              curr = winner;
+          } else {
+              break;
+          }
+      }
+      return result;
+  };
+  
+  const getScore = (seq: Stroke[]) => {
+      let d = 0;
+      for (let i = 0; i < seq.length - 1; i++) {
+          const p1 = seq[i].points[seq[i].points.length - 1];
+          const p2 = seq[i+1].points[0];
+          d += Math.sqrt(distSq(p1, p2));
+          if (p2.x < p1.x - 100) d += 50; 
+      }
+      return d;
+  }
+
+  const mainStrokes = strokes.filter((_, i) => !underlineIndices.has(i) && !headlineIndices.has(i));
+  const underlineStrokes = strokes.filter((_, i) => underlineIndices.has(i));
+  const headlineStrokes = strokes.filter((_, i) => headlineIndices.has(i));
+
+  const h1 = solve(mapStrokes(mainStrokes), false);
+  const h2 = solve(mapStrokes(mainStrokes), true);
+  
+  const s1 = getScore(h1);
+  const s2 = getScore(h2);
+  
+  const bestMain = mapStrokes((s2 < s1 * 1.3) ? h2 : h1);
+  
+  return [
+    ...orientDecorations(cloneStrokes(headlineStrokes)),
+    ...bestMain,
+    ...orientDecorations(cloneStrokes(underlineStrokes))
+  ];
+};
+
+// Helper: Count ink branches leaving a point by walking a ring around it.
+// 2 means a plain stroke, 3+ a fork or crossing.
+const countRingBranches = (mask: Uint8Array, width: number, height: number, cx: number, cy: number, radius: number) => {
+  const SAMPLES = 24;
+  const ring: number[] = [];
+  for (let k = 0; k < SAMPLES; k++) {
+    const angle = (k / SAMPLES) * Math.PI * 2;
+    const x = Math.round(cx + Math.cos(angle) * radius);
+    const y = Math.round(cy + Math.sin(angle) * radius);
+    const inside = x >= 0 && x < width && y >= 0 && y < height;
+    ring.push(inside && mask[y * width + x] > 0 ? 1 : 0);
+  }
+  let branches = 0;
+  for (let k = 0; k < SAMPLES; k++) {
+    if (ring[k] === 0 && ring[(k + 1) % SAMPLES] === 1) branches++;
+  }
+  return branches;
+};
+
+// Helper: Keep only mask pixels whose colour is close to the given hue.
+// Grey/black pixels (printed text, pencil) carry no hue and are dropped.
+const isolateInkHue = (mask: Uint8Array, data: Uint8ClampedArray, hue: number, tolerance: number) => {
+  const MIN_SATURATION = 0.15;
+  let removed = 0;
+
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] === 0) continue;
+    const r = data[i * 4] / 255;
+    const g = data[i * 4 + 1] / 255;
+    const b = data[i * 4 + 2] / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const chroma = max - min;
+    const saturation = max > 0 ? chroma / max : 0;
+
+    let keep = false;
+    if (chroma > 0 && saturation >= MIN_SATURATION) {
+      let h: number;
+      if (max === r) h = ((g - b) / chroma) % 6;
+      else if (max === g) h = (b - r) / chroma + 2;
+      else h = (r - g) / chroma + 4;
+      h = (h * 60 + 360) % 360;
+      const diff = Math.abs(h - hue) % 360;
+      keep = Math.min(diff, 360 - diff) <= tolerance;
+    }
+    if (!keep) {
+      mask[i] = 0;
+      removed++;
+    }
+  }
+  return removed;
+};
+
+// Helper: Remove long straight horizontal and vertical runs (ruled lines, form boxes).
+// Pixels where a stroke crosses the line are put back so the signature is not cut.
+const removeStraightLines = (mask: Uint8Array, width: number, height: number) => {
+  const MIN_H_RUN = Math.max(40, Math.round(width * 0.3));
+  const MIN_V_RUN = Math.max(40, Math.round(height * 0.3));
+  const MAX_LINE_THICKNESS = 6;
+  const lineMask = new Uint8Array(mask.length);
+
+  // Horizontal runs
+  for (let y = 0; y < height; y++) {
+    let runStart = -1;
+    for (let x = 0; x <= width; x++) {
+      const ink = x < width && mask[y * width + x] === 1;
+      if (ink && runStart === -1) runStart = x;
+      if (!ink && runStart !== -1) {
+        if (x - runStart >= MIN_H_RUN) {
+          for (let k = runStart; k < x; k++) lineMask[y * width + k] = 1;
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  // Vertical runs
+  for (let x = 0; x < width; x++) {
+    let runStart = -1;
+    for (let y = 0; y <= height; y++) {
+      const ink = y < height && mask[y * width + x] === 1;
+      if (ink && runStart === -1) runStart = y;
+      if (!ink && runStart !== -1) {
+        if (y - runStart >= MIN_V_RUN) {
+          for (let k = runStart; k < y; k++) lineMask[k * width + x] = 2;
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  // Is there stroke ink (not line) just beyond the line band in direction (dx, dy)?
+  const inkBeyond = (x: number, y: number, dx: number, dy: number, kind: number) => {
+    for (let step = 1; step <= MAX_LINE_THICKNESS + 1; step++) {
+      const nx = x + dx * step;
+      const ny = y + dy * step;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) return false;
+      const nIdx = ny * width + nx;
+      if (lineMask[nIdx] === kind) continue;
+      return mask[nIdx] === 1 && lineMask[nIdx] === 0;
+    }
+    return false;
+  };
+
+  let removed = 0;
+  const crossings: number[] = [];
+  for (let i = 0; i < mask.length; i++) {
+    const kind = lineMask[i];
+    if (kind === 0) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    const crossed = kind === 1
+      ? inkBeyond(x, y, 0, -1, kind) && inkBeyond(x, y, 0, 1, kind)
+      : inkBeyond(x, y, -1, 0, kind) && inkBeyond(x, y, 1, 0, kind);
+    if (crossed) crossings.push(i);
+    else {
+      mask[i] = 0;
+      removed++;
+    }
+  }
+  // Crossing pixels stay ink
+  for (const i of crossings) mask[i] = 1;
+  return removed;
+};
+
+const despeckleBitmask = (data: Uint8Array, width: number, height: number, minSize: number) => {
+  const seen = new Uint8Array(data.length);
+  const stack: number[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 1 && seen[i] === 0) {
+      let count = 0;
+      let ptr = 0;
+      stack.length = 0; 
+      stack.push(i);
+      seen[i] = 1;
+      
+      const componentIndices: number[] = [i];
+
+      while (ptr < stack.length) {
+        const idx = stack[ptr++];
+        count++;
+        
+        const cx = idx % width;
+        const cy = Math.floor(idx / width);
+
+        const neighbors = [
+           { x: cx - 1, y: cy },
+           { x: cx + 1, y: cy },
+           { x: cx, y: cy - 1 },
+           { x: cx, y: cy + 1 }
+        ];
+
+        for (const n of neighbors) {
+           if (n.x >= 0 && n.x < width && n.y >= 0 && n.y < height) {
+               const nIdx = n.y * width + n.x;
+               if (data[nIdx] === 1 && seen[nIdx] === 0) {
+                   seen[nIdx] = 1;
+                   stack.push(nIdx);
+                   componentIndices.push(nIdx);
+               }
+           }
+        }
+      }
+
+      if (count < minSize) {
+          for (const idx of componentIndices) {
+              data[idx] = 0;
+          }
+      }
+    }
+  }
+};
+
+// Helper: Find small round ink blobs (i-dots, full stops) and lift them out of the mask.
+// A blob is a dot when it fits in maxDiameter, is roughly as tall as wide and fills its box like a disc.
+const extractDots = (data: Uint8Array, width: number, height: number, maxDiameter: number) => {
+  const seen = new Uint8Array(data.length);
+  const dots: { x: number, y: number, diameter: number }[] = [];
+
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] !== 1 || seen[i] === 1) continue;
+
+    const componentIndices: number[] = [i];
+    seen[i] = 1;
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    let sumX = 0, sumY = 0;
+
+    for (let ptr = 0; ptr < componentIndices.length; ptr++) {
+      const idx = componentIndices[ptr];
+      const cx = idx % width;
+      const cy = Math.floor(idx / width);
+      if (cx < minX) minX = cx;
+      if (cx > maxX) maxX = cx;
+      if (cy < minY) minY = cy;
+      if (cy > maxY) maxY = cy;
+      sumX += cx;
+      sumY += cy;
+
+      const neighbors = [idx - 1, idx + 1, idx - width, idx + width];
+      for (let n = 0; n < 4; n++) {
+        const nIdx = neighbors[n];
+        if (n === 0 && cx === 0) continue;
+        if (n === 1 && cx === width - 1) continue;
+        if (nIdx < 0 || nIdx >= data.length) continue;
+        if (data[nIdx] === 1 && seen[nIdx] === 0) {
+          seen[nIdx] = 1;
+          componentIndices.push(nIdx);
+        }
+      }
+    }
+
+    const boxW = maxX - minX + 1;
+    const boxH = maxY - minY + 1;
+    const area = componentIndices.length;
+    const isSmall = Math.max(boxW, boxH) <= maxDiameter;
+    const isRound = Math.min(boxW, boxH) / Math.max(boxW, boxH) >= 0.6;
+    const isSolid = area / (boxW * boxH) >= 0.6; // A disc fills ~0.79 of its box
+
+    if (isSmall && isRound && isSolid) {
+      for (const idx of componentIndices) data[idx] = 0;
+      dots.push({ x: sumX / area, y: sumY / area, diameter: Math.sqrt((4 * area) / Math.PI) });
+    }
+  }
+  return dots;
+};
+
+const validateStrokeCoverage = (
+  stroke: Stroke, 
+  bitmask: Uint8Array, 
+  width: number, 
+  height: number, 
+  outputScale: number
+): boolean => {
+    if (stroke.points.length < 2) return true;
+
+    let hits = 0;
+    let checks = 0;
+    
+    const scaleX = width / outputScale;
+    const scaleY = height / outputScale;
+
+    for (let i = 0; i < stroke.points.length - 1; i++) {
+        const p1 = stroke.points[i];
+        const p2 = stroke.points[i+1];
+        
+        const dist = Math.sqrt(distSq(p1, p2));
+        const stepSize = 2 / scaleX;
+        const steps = Math.ceil(dist / Math.max(1, stepSize * outputScale)); 
+
+        for (let j = 0; j <= steps; j++) {
+            const t = steps === 0 ? 0 : j / steps;
+            const x = p1.x + (p2.x - p1.x) * t;
+            const y = p1.y + (p2.y - p1.y) * t;
+
+            const bx = Math.floor(x * scaleX);
+            const by = Math.floor(y * scaleY);
+
+            if (bx >= 0 && bx < width && by >= 0 && by < height) {
+                checks++;
+                let isInk = false;
+                for (let ry = -1; ry <= 1; ry++) {
+                    for (let rx = -1; rx <= 1; rx++) {
+                        const idx = (by + ry) * width + (bx + rx);
+                        if (idx >= 0 && idx < bitmask.length && bitmask[idx] > 0) {
+                            isInk = true;
+                            break;
+                        }
+                    }
+                    if (isInk) break;
+                }
+                if (isInk) hits++;
+            }
+        }
+    }
+
+    if (checks === 0) return false;
+    return (hits / checks) >= 0.55;
+};
+
+// Anything shaped like ImageData: browser ImageData, OffscreenCanvas pixels or a plain buffer in Node
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface TraceProgress {
+  pixelsConsumed: number; // Ink (walker) or skeleton (skeleton mode) pixels traced so far
+  totalPixels: number;
+  strokesFound: number;
+}
+
+export interface TraceHooks {
+  onProgress?: (progress: TraceProgress) => void;
+  signal?: AbortSignal;
+}
+
+// --- HIGH FIDELITY GEOMETRY SETTINGS ---
+const MAX_PROCESS_WIDTH = 1200; // Increased resolution for better precision
+
+// Size the image is downscaled to before tracing
+export const getProcessingSize = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_PROCESS_WIDTH / width);
+  return {
+    scale,
+    width: Math.floor(width * scale),
+    height: Math.floor(height * scale)
+  };
+};
+
+// The walker radii were tuned on ~7px ink (5.8-7.5px estimated, depending on the stroke angle).
+// Within this band they are kept as is, outside it the pen is sized to the estimated stroke width.
+const TUNED_WIDTH_RANGE: [number, number] = [5.25, 8.75];
+
+// Blobs up to 2.5 stroke widths across (never less than 4px) count as dots
+const DOT_SIZE_FACTOR = 2.5;
+const DOT_MIN_SIZE = 4;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal && signal.aborted) throw new DOMException("Tracing aborted", "AbortError");
+};
+
+/**
+ * Traces already decoded RGBA pixels (at processing size) into strokes.
+ * No DOM access, so it runs the same in the page, the tracer worker and Node.
+ */
+export const traceSignaturePixels = (
+  image: RgbaImage,
+  originalSize: [number, number] = [image.width, image.height],
+  options: LocalTracerOptions = {},
+  hooks: TraceHooks = {}
+): SignatureAnalysis => {
+    const { data, width: pWidth, height: pHeight } = image;
+    const mode: TracingMode = options.mode || 'walker';
+    const order: StrokeOrder = options.order || 'ltr';
+    const thresholdMethod: ThresholdMethod = options.threshold || 'otsu';
+    const { scale } = getProcessingSize(originalSize[0], originalSize[1]);
+    const { onProgress, signal } = hooks;
+    throwIfAborted(signal);
+
+    const binarized = binarizeInk(data, pWidth, pHeight, thresholdMethod);
+    const visited = binarized.mask;
+    const cleanupNotes: string[] = [];
+
+    // --- PRE-TRACING CLEANUP (forms: printed text, ruling, boxes) ---
+    if (options.inkHue !== undefined) {
+        const tolerance = options.inkHueTolerance ?? 30;
+        const removed = isolateInkHue(visited, data, options.inkHue, tolerance);
+        cleanupNotes.push(`Ink Hue: ${Math.round(options.inkHue)}±${tolerance} (-${removed}px)`);
+    }
+    if (options.removeRuledLines) {
+        const removed = removeStraightLines(visited, pWidth, pHeight);
+        cleanupNotes.push(`Ruled Lines: -${removed}px`);
+    }
+
+    despeckleBitmask(visited, pWidth, pHeight, 20); // Slightly larger speckle filter for high-res
+    throwIfAborted(signal);
+
+    // Taken before tracing, the walker eats ink out of the mask as it goes
+    const inkDistance = distanceTransform(visited, pWidth, pHeight);
+    const strokeWidth = estimateStrokeWidth(inkDistance, pWidth, pHeight);
+
+    // Dots are taken out before tracing, a pen walking through them only leaves a stub behind
+    const dots = extractDots(visited, pWidth, pHeight, Math.max(DOT_MIN_SIZE, strokeWidth * DOT_SIZE_FACTOR));
+
+    const rawStrokes: Stroke[] = [];
+    const OUTPUT_SCALE = 10000;
+    const getXY = (idx: number) => ({ x: idx % pWidth, y: Math.floor(idx / pWidth) });
+
+    // --- SAMPLING THICKNESS & OPACITY (shared by both tracing modes) ---
+    const samplePoint = (x: number, y: number): RawPoint => {
+        const cxInt = Math.round(x);
+        const cyInt = Math.round(y);
+        const sampleIdx = cyInt * pWidth + cxInt;
+
+        // Opacity (0-1 based on luminance/alpha)
+        let opacity = 1.0;
+        if (sampleIdx >= 0 && sampleIdx < data.length/4) {
+           const offset = sampleIdx * 4;
+           const alpha = data[offset + 3] / 255.0;
+           const lum = (0.299*data[offset] + 0.587*data[offset+1] + 0.114*data[offset+2]);
+           const darkness = 1.0 - (lum / 255.0);
+           opacity = alpha * Math.max(0.1, darkness); 
+        }
+
+        // Thickness (distance to paper on the local ridge; the traced point can sit a pixel off the centerline)
+        let ridge = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const sx = cxInt + dx, sy = cyInt + dy;
+                if (sx < 0 || sx >= pWidth || sy < 0 || sy >= pHeight) continue;
+                ridge = Math.max(ridge, inkDistance[sy * pWidth + sx]);
+            }
+        }
+        // A centerline pixel d px from paper sits in a stroke ~2d px wide. Axis-aligned strokes come out
+        // a pixel wide, diagonal ones a little narrow (the paper lattice is denser along diagonals), split the difference
+        const localWidth = Math.max(1, ridge * 2 - 0.5);
+        const thicknessNorm = (localWidth / pWidth) * OUTPUT_SCALE;
+
+        return {
+            x: Math.round((x / pWidth) * OUTPUT_SCALE),
+            y: Math.round((y / pHeight) * OUTPUT_SCALE),
+            z: thicknessNorm,
+            a: parseFloat(opacity.toFixed(2))
+        };
+    };
+
+    // --- PROGRESS & CANCELLATION (checked once per traced stroke) ---
+    const reportProgress = (pixelsConsumed: number, totalPixels: number, strokesFound: number) => {
+        throwIfAborted(signal);
+        if (onProgress) onProgress({ pixelsConsumed, totalPixels, strokesFound });
+    };
+
+    if (mode === 'skeleton') {
+        const skeleton = thinBitmask(visited, pWidth, pHeight);
+        throwIfAborted(signal);
+        const paths = traceSkeletonPaths(skeleton, pWidth, pHeight, { onPath: reportProgress });
+        for (const path of paths) {
+            if (path.length > 3) {
+                rawStrokes.push({ points: path.map(p => samplePoint(p.x, p.y)) });
+            }
+        }
+    } else {
+        // --- TUNED WALKER PARAMETERS ---
+        // Scaled to the estimated stroke width, so broad felt-tip ink is eaten in one pass
+        // and hairlines keep their detail
+        const tuned = strokeWidth === 0 || (strokeWidth >= TUNED_WIDTH_RANGE[0] && strokeWidth <= TUNED_WIDTH_RANGE[1]);
+        const PEN_RADIUS = tuned ? 3 : Math.max(1, Math.ceil(strokeWidth / 2)); // Radius of consumed ink (approx 7px diameter when tuned)
+        const SEARCH_RADIUS = Math.max(PEN_RADIUS + 2, Math.round(PEN_RADIUS * 5 / 3)); // Look for ink centroid within this radius
+        const HEADING_LAG = 3; // Steps back used to estimate the pen heading
+        const CONTINUITY_COS = 0.5; // At junctions only follow ink within ~60 degrees of the heading
+        const JUNCTION_MEMORY = 3; // Steps after a junction during which the heading still rules
+
+        // Helper: Move a start pixel uphill on the distance map, onto the stroke's centerline
+        const climbToRidge = (startIdx: number) => {
+            let idx = startIdx;
+            for (let step = 0; step < strokeWidth; step++) {
+                const { x, y } = getXY(idx);
+                let best = idx;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx, ny = y + dy;
+                        if (nx < 0 || nx >= pWidth || ny < 0 || ny >= pHeight) continue;
+                        const nIdx = ny * pWidth + nx;
+                        if (visited[nIdx] === 1 && inkDistance[nIdx] > inkDistance[best]) best = nIdx;
+                    }
+                }
+                if (best === idx) break;
+                idx = best;
+            }
+
+            // A blob the pen covers in one stamp (an i-dot) is walked from its edge as before,
+            // starting in its middle would swallow it in a single step
+            const { x: rx, y: ry } = getXY(idx);
+            const outer = PEN_RADIUS + 2;
+            for (let dy = -outer; dy <= outer; dy++) {
+                for (let dx = -outer; dx <= outer; dx++) {
+                    const dSq = dx*dx + dy*dy;
+                    if (dSq <= (PEN_RADIUS + 0.5) ** 2 || dSq > outer * outer) continue;
+                    const nx = rx + dx, ny = ry + dy;
+                    if (nx >= 0 && nx < pWidth && ny >= 0 && ny < pHeight && visited[ny * pWidth + nx] === 1) return idx;
+                }
+            }
+            return startIdx;
+        };
+
+        let globalSearchIdx = 0;
+        let active = true;
+        let safetyCounter = 0;
+
+        let totalInk = 0;
+        for (let i = 0; i < visited.length; i++) if (visited[i] === 1) totalInk++;
+        let consumedInk = 0;
+
+        while (active && safetyCounter < 10000) {
+            safetyCounter++;
+
+            let startIdx = -1;
+            while (globalSearchIdx < visited.length) {
+                if (visited[globalSearchIdx] === 1) {
+                    startIdx = globalSearchIdx;
+                    break;
+                }
+                globalSearchIdx++;
+            }
+
+            if (startIdx === -1) {
+                active = false;
+                break; 
+            }
+
+            const strokePoints: RawPoint[] = [];
+            // The scan finds the top edge of the ink, climb the distance map onto the centerline
+            // first, or a broad pen leaves the far side of the stroke behind as a sliver
+            let currentPos = getXY(climbToRidge(startIdx));
+            let tracing = true;
+            let strokeSafety = 0;
+            const trail: Point[] = [];
+            let lastJunctionStep = -Infinity;
+
+            while (tracing && strokeSafety < 10000) {
+                strokeSafety++;
+
+                strokePoints.push(samplePoint(currentPos.x, currentPos.y));
+                trail.push(currentPos);
+
+                // Consume Ink (swept along the move from the previous position, so a broad pen
+                // taking long steps doesn't leave scallops of ink between its stamps)
+                const cx = Math.round(currentPos.x);
+                const cy = Math.round(currentPos.y);
+                const prev = trail.length > 1 ? trail[trail.length - 2] : currentPos;
+                const px = prev.x, py = prev.y;
+                const segX = currentPos.x - px, segY = currentPos.y - py;
+                const segLenSq = segX*segX + segY*segY;
+                const eatRadiusSq = (PEN_RADIUS + 0.5) ** 2;
+                const eatMinX = Math.max(0, Math.floor(Math.min(currentPos.x, px)) - PEN_RADIUS);
+                const eatMaxX = Math.min(pWidth - 1, Math.ceil(Math.max(currentPos.x, px)) + PEN_RADIUS);
+                const eatMinY = Math.max(0, Math.floor(Math.min(currentPos.y, py)) - PEN_RADIUS);
+                const eatMaxY = Math.min(pHeight - 1, Math.ceil(Math.max(currentPos.y, py)) + PEN_RADIUS);
+
+                for (let ny = eatMinY; ny <= eatMaxY; ny++) {
+                    for (let nx = eatMinX; nx <= eatMaxX; nx++) {
+                        const t = segLenSq > 0 ? Math.max(0, Math.min(1, ((nx - px) * segX + (ny - py) * segY) / segLenSq)) : 0;
+                        const dx = nx - (px + segX * t);
+                        const dy = ny - (py + segY * t);
+                        if (dx*dx + dy*dy <= eatRadiusSq) {
+                            const nIdx = ny * pWidth + nx;
+                            if (visited[nIdx] === 1) {
+                                visited[nIdx] = 2; // Mark as consumed
+                                consumedInk++;
+                            }
+                        }
+                    }
+                }
+
+                // Heading (unit vector) from recent positions
+                let heading: Point | null = null;
+                if (trail.length > HEADING_LAG) {
+                    const back = trail[trail.length - 1 - HEADING_LAG];
+                    const hx = currentPos.x - back.x;
+                    const hy = currentPos.y - back.y;
+                    const hLen = Math.sqrt(hx*hx + hy*hy);
+                    if (hLen > 0.5) heading = { x: hx / hLen, y: hy / hLen };
+                }
+
+                // Junction Detection (fork or crossing around the pen)
+                // (two rings: a crossing at a shallow angle only separates into branches further out)
+                const atJunction = heading !== null && (
+                    countRingBranches(visited, pWidth, pHeight, cx, cy, SEARCH_RADIUS + 1) >= 3 ||
+                    countRingBranches(visited, pWidth, pHeight, cx, cy, SEARCH_RADIUS * 2) >= 3
+                );
+                if (atJunction) lastJunctionStep = strokeSafety;
+
+                // Centroid Calculation (Tracking)
+                // At a junction only ink ahead of the pen counts, so it keeps going straight through
+                let sumX = 0, sumY = 0, count = 0;
+                let coneX = 0, coneY = 0, coneCount = 0;
+                const minX = Math.max(0, cx - SEARCH_RADIUS);
+                const maxX = Math.min(pWidth, cx + SEARCH_RADIUS);
+                const minY = Math.max(0, cy - SEARCH_RADIUS);
+                const maxY = Math.min(pHeight, cy + SEARCH_RADIUS);
+
+                for (let y = minY; y < maxY; y++) {
+                    for (let x = minX; x < maxX; x++) {
+                        const idx = y * pWidth + x;
+                        if (visited[idx] === 1) {
+                            sumX += x;
+                            sumY += y;
+                            count++;
+
+                            if (heading) {
+                                const vx = x - currentPos.x;
+                                const vy = y - currentPos.y;
+                                const vLen = Math.sqrt(vx*vx + vy*vy);
+                                if (vLen > 0 && (vx * heading.x + vy * heading.y) / vLen >= CONTINUITY_COS) {
+                                    coneX += x;
+                                    coneY += y;
+                                    coneCount++;
+                                }
+                            }
+                        }
+                    }
+                }
+
+                const nearJunction = strokeSafety - lastJunctionStep <= JUNCTION_MEMORY;
+                let nextPos: Point | null = null;
+
+                if (nearJunction && heading) {
+                    if (coneCount > 0) {
+                        nextPos = { x: coneX / coneCount, y: coneY / coneCount };
+                    } else {
+                        // Ink at a crossing is eaten on the first pass, hop over the gap along the heading
+                        for (let d = SEARCH_RADIUS; d <= SEARCH_RADIUS * 2 && !nextPos; d++) {
+                            const lx = Math.round(currentPos.x + heading.x * d);
+                            const ly = Math.round(currentPos.y + heading.y * d);
+                            if (lx >= 0 && lx < pWidth && ly >= 0 && ly < pHeight && visited[ly * pWidth + lx] === 1) {
+                                nextPos = { x: lx, y: ly };
+                            }
+                        }
+                    }
+                }
+                if (!nextPos && count > 0) {
+                    nextPos = { x: sumX / count, y: sumY / count };
+                }
+
+                // Stop when the pen no longer moves (remaining ink balanced around it)
+                if (nextPos && Math.abs(nextPos.x - currentPos.x) + Math.abs(nextPos.y - currentPos.y) > 0.25) {
+                    currentPos = nextPos;
+                } else {
+                    tracing = false;
+                }
+            }
+
+            if (strokePoints.length > 3) {
+                rawStrokes.push({ points: strokePoints });
+            }
+            reportProgress(consumedInk, totalInk, rawStrokes.length);
+        }
+    }
+
+    for (const dot of dots) {
+        rawStrokes.push({
+            type: 'dot',
+            points: [{ ...samplePoint(dot.x, dot.y), z: (dot.diameter / pWidth) * OUTPUT_SCALE }]
+        });
+    }
+
+    const orderedStrokes = optimizeStrokeOrder(rawStrokes, order);
+
+    const mergedStrokes: Stroke[] = [];
+    if (orderedStrokes.length > 0) {
+        let currentStroke = orderedStrokes[0];
+        const MERGE_THRESHOLD_SQ = 300 * 300; 
+
+        for (let i = 1; i < orderedStrokes.length; i++) {
+            const nextStroke = orderedStrokes[i];
+            const lastPt = currentStroke.points[currentStroke.points.length - 1];
+            const firstPt = nextStroke.points[0];
+
+            const isDot = currentStroke.type === 'dot' || nextStroke.type === 'dot';
+            if (!isDot && distSq(lastPt, firstPt) < MERGE_THRESHOLD_SQ) {
+                 currentStroke.points = currentStroke.points.concat(nextStroke.points);
+            } else {
+                 mergedStrokes.push(currentStroke);
+                 currentStroke = nextStroke;
+            }
+        }
+        mergedStrokes.push(currentStroke);
+    }
+
+    const smoothedStrokes = mergedStrokes.map(stroke => {
+        let pts = stroke.points;
+        // Apply lighter smoothing to merged points
+        pts = smoothPoints(pts);
+        return { ...stroke, points: pts };
+    });
+
+    const finalStrokes: Stroke[] = [];
+
+    for (const stroke of smoothedStrokes) {
+        // Dots are a single tap, nothing to refine
+        if (stroke.type === 'dot') {
+            finalStrokes.push(stroke);
+            continue;
+        }
+
+        const deduped = stroke.points.filter((p, i, arr) => {
+             if (i === 0) return true;
+             const prev = arr[i-1];
+             return distSq(p, prev) > 100;
+        });
+
+        if (deduped.length < 3) continue;
+
+        const onInkPoints: RawPoint[] = [];
+        if (deduped.length > 0) onInkPoints.push(deduped[0]);
+
+        for (let i = 1; i < deduped.length - 1; i++) {
+            const p = deduped[i];
+            const cx = Math.floor((p.x / OUTPUT_SCALE) * pWidth);
+            const cy = Math.floor((p.y / OUTPUT_SCALE) * pHeight);
+
+            let hit = false;
+            for(let ry = -2; ry <= 2; ry++) {
+                for(let rx = -2; rx <= 2; rx++) {
+                    const idx = (cy + ry) * pWidth + (cx + rx);
+                    if (idx >= 0 && idx < visited.length && visited[idx] > 0) {
+                        hit = true;
+                        break;
+                    }
+                }
+                if(hit) break;
+            }
+
+            if (hit) onInkPoints.push(p);
+        }
+        if (deduped.length > 1) onInkPoints.push(deduped[deduped.length - 1]);
+
+        const jitterFreePoints = filterJitter(onInkPoints);
+        if (jitterFreePoints.length < 3) continue;
+
+        const finalPoints = [jitterFreePoints[0]];
+
+        // --- SIMPLIFICATION (Douglas-Peucker-ish) ---
+        for (let i = 1; i < jitterFreePoints.length - 1; i++) {
+            const prev = finalPoints[finalPoints.length - 1];
+            const curr = jitterFreePoints[i];
+            const next = jitterFreePoints[i+1];
+
+            const area = Math.abs(0.5 * (prev.x * (curr.y - next.y) + curr.x * (next.y - prev.y) + next.x * (prev.y - curr.y)));
+            const dx = next.x - prev.x;
+            const dy = next.y - prev.y;
+            const baseSq = dx*dx + dy*dy;
+
+            if (baseSq < 1) continue;
+            const deviationSq = (4 * area * area) / baseSq;
+
+            // Lower threshold to 30 to keep more detail (was 70)
+            if (deviationSq > 30) {
+                finalPoints.push(curr);
+            }
+        }
+        finalPoints.push(jitterFreePoints[jitterFreePoints.length - 1]);
+
+        const candidateStroke = { ...stroke, points: finalPoints };
+        if (validateStrokeCoverage(candidateStroke, visited, pWidth, pHeight, OUTPUT_SCALE)) {
+             finalStrokes.push(candidateStroke);
+        }
+    }
+
+    const slant = estimateSlant(finalStrokes, pWidth, pHeight, OUTPUT_SCALE);
+
+    return {
+        strokes: finalStrokes,
+        metadata: {
+            original_size: originalSize,
+            stroke_width_px: parseFloat((strokeWidth / scale).toFixed(1)),
+            stroke_order: order,
+            slant_deg: parseFloat(slant.toFixed(1)),
+            notes: `Local Bitmask Tracer (Mode: ${mode}, Order: ${order}, Threshold: ${binarized.note}, ${cleanupNotes.length > 0 ? cleanupNotes.join(', ') + ', ' : ''}Stroke Width: ${(strokeWidth / scale).toFixed(1)}px, Slant: ${slant.toFixed(1)}°, Scale: ${scale.toFixed(2)}, w/ Ink Thickness & Opacity, Geometry Refined)`
+        }
+    };
+};
@@ -0,0 +1,166 @@
+import { SignatureAnalysis } from '../types';
+import { analyzeSignatureLocal } from './localTracer';
+import { LocalTracerOptions, TraceHooks, TraceProgress } from './tracerCore';
+
+// --- WORKER PROTOCOL ---
+export interface TracerRequest {
+  id: number;
+  imageSrc: string;
+  options: LocalTracerOptions;
+}
+
+export type TracerResponse =
+  | { type: 'progress', id: number, progress: TraceProgress }
+  | { type: 'result', id: number, analysis: SignatureAnalysis }
+  | { type: 'error', id: number, message: string };
+
+interface TraceJob {
+  request: TracerRequest;
+  hooks: TraceHooks;
+  resolve: (analysis: SignatureAnalysis) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker | null; // Null only while the slot is being set up
+  job: TraceJob | null;
+}
+
+const abortError = () => new DOMException("Tracing aborted", "AbortError");
+
+/**
+ * Small pool of tracer workers. Jobs queue up and run in parallel up to the
+ * pool size. Aborting a running job terminates its worker (the trace is
+ * synchronous inside the worker) and a fresh one takes its place.
+ */
+export class TracerPool {
+  private size: number;
+  private slots: WorkerSlot[] = [];
+  private queue: TraceJob[] = [];
+  private nextId: number = 1;
+
+  constructor(size?: number) {
+    // Leave a core for the UI thread
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    this.size = size ?? Math.max(1, Math.min(4, cores - 1));
+  }
+
+  public trace(imageSrc: string, options: LocalTracerOptions = {}, hooks: TraceHooks = {}): Promise<SignatureAnalysis> {
+    return new Promise((resolve, reject) => {
+      if (hooks.signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      // The abort listener goes when the job settles, so a signal shared by many jobs doesn't keep them alive
+      const onAbort = () => this.cancel(job);
+      const settle = () => hooks.signal?.removeEventListener('abort', onAbort);
+      const job: TraceJob = {
+        request: { id: this.nextId++, imageSrc, options },
+        hooks,
+        resolve: (analysis) => { settle(); resolve(analysis); },
+        reject: (error) => { settle(); reject(error); }
+      };
+      hooks.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(job);
+      this.pump();
+    });
+  }
+
+  public dispose() {
+    this.slots.forEach(slot => {
+      slot.worker?.terminate();
+      slot.job?.reject(abortError());
+    });
+    this.queue.forEach(job => job.reject(abortError()));
+    this.slots = [];
+    this.queue = [];
+  }
+
+  private pump() {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(s => s.job === null);
+      if (!slot) {
+        if (this.slots.length >= this.size) return;
+        slot = { worker: null, job: null };
+        slot.worker = this.spawnWorker(slot);
+        this.slots.push(slot);
+      }
+      const job = this.queue.shift()!;
+      slot.job = job;
+      slot.worker?.postMessage(job.request);
+    }
+  }
+
+  private spawnWorker(slot: WorkerSlot): Worker {
+    const worker = new Worker(new URL('./tracerWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<TracerResponse>) => this.handleMessage(slot, e.data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      const job = slot.job;
+      this.replaceWorker(slot);
+      job?.reject(new Error(e.message || "Tracer worker crashed"));
+      this.pump();
+    };
+    return worker;
+  }
+
+  private replaceWorker(slot: WorkerSlot) {
+    slot.worker?.terminate();
+    slot.job = null;
+    slot.worker = this.spawnWorker(slot);
+  }
+
+  private handleMessage(slot: WorkerSlot, message: TracerResponse) {
+    const job = slot.job;
+    if (!job || job.request.id !== message.id) return;
+
+    if (message.type === 'progress') {
+      job.hooks.onProgress?.(message.progress);
+      return;
+    }
+
+    slot.job = null;
+    if (message.type === 'result') {
+      job.resolve(message.analysis);
+    } else {
+      job.reject(new Error(message.message));
+    }
+    this.pump();
+  }
+
+  private cancel(job: TraceJob) {
+    const queued = this.queue.indexOf(job);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      job.reject(abortError());
+      return;
+    }
+
+    const slot = this.slots.find(s => s.job === job);
+    if (slot) {
+      this.replaceWorker(slot);
+      job.reject(abortError());
+      this.pump();
+    }
+  }
+}
+
+let sharedPool: TracerPool | null = null;
+
+/**
+ * Worker-backed analyzeSignatureLocal. Falls back to the main thread where
+ * workers are unavailable.
+ */
+export const analyzeSignatureInWorker = (
+  imageSrc: string,
+  options: LocalTracerOptions = {},
+  hooks: TraceHooks = {}
+): Promise<SignatureAnalysis> => {
+  if (typeof Worker === 'undefined') {
+    return analyzeSignatureLocal(imageSrc, options, hooks);
+  }
+  if (!sharedPool) sharedPool = new TracerPool();
+  return sharedPool.trace(imageSrc, options, hooks);
+};
@@ -0,0 +1,61 @@
+import { getProcessingSize, traceSignaturePixels } from './tracerCore';
+import type { TraceProgress } from './tracerCore';
+import type { TracerRequest, TracerResponse } from './tracerPool';
+
+// Worker entry for the local tracer. Decodes the image off the main thread
+// with createImageBitmap/OffscreenCanvas and runs the same pixel pipeline.
+// Cancellation is done by the pool terminating the worker, since the trace
+// itself is synchronous and never yields to the message loop.
+
+// The project is typed against the DOM lib, so the worker scope is typed by the part of it used here
+interface TracerScope {
+  postMessage(message: TracerResponse): void;
+  onmessage: ((e: MessageEvent<TracerRequest>) => void) | null;
+}
+
+const scope: TracerScope = self;
+const post = (message: TracerResponse) => scope.postMessage(message);
+
+const decodePixels = async (imageSrc: string) => {
+  const blob = await (await fetch(imageSrc)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const { width, height } = getProcessingSize(bitmap.width, bitmap.height);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get context");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const originalSize: [number, number] = [bitmap.width, bitmap.height];
+  bitmap.close();
+
+  return { image: ctx.getImageData(0, 0, width, height), originalSize };
+};
+
+scope.onmessage = async (e: MessageEvent<TracerRequest>) => {
+  const { id, imageSrc, options } = e.data;
+  try {
+    const { image, originalSize } = await decodePixels(imageSrc);
+
+    // Progress is throttled so a signature with hundreds of strokes doesn't flood the main thread.
+    // The last throttled update is still sent, so the bar reaches the final count
+    let lastPost = 0;
+    let pending: TraceProgress | null = null;
+    const analysis = traceSignaturePixels(image, originalSize, options, {
+      onProgress: (progress) => {
+        const now = performance.now();
+        if (now - lastPost < 50) {
+          pending = progress;
+          return;
+        }
+        lastPost = now;
+        pending = null;
+        post({ type: 'progress', id, progress });
+      }
+    });
+
+    if (pending) post({ type: 'progress', id, progress: pending });
+    post({ type: 'result', id, analysis });
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : "Failed to trace signature" });
+  }
+};
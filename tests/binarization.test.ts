@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { binarizeInk } from '../services/binarization';
+
+// Paper lit by `light(x)` with a 3px horizontal pen stroke through the middle that
+// absorbs 70% of the light falling on it
+const W = 96, H = 48;
+const STROKE = [23, 24, 25];
+
+const litPage = (light: (x: number) => number) => {
+  const data = new Uint8ClampedArray(W * H * 4);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const o = (y * W + x) * 4;
+      const v = STROKE.includes(y) ? light(x) * 0.3 : light(x);
+      data[o] = data[o + 1] = data[o + 2] = v;
+      data[o + 3] = 255;
+    }
+  }
+  return data;
+};
+
+// Ink pixels split into those on the stroke and stray ones on the paper
+const classify = (mask: Uint8Array) => {
+  let stroke = 0, stray = 0;
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      if (!mask[y * W + x]) continue;
+      if (STROKE.includes(y)) stroke++; else stray++;
+    }
+  }
+  return { stroke, stray };
+};
+
+// Falls from 240 on the left into a shadow of 80 on the right
+const DEEP_SHADOW = (x: number) => 240 - 160 * (x / (W - 1));
+
+describe('binarization', () => {
+  it('separates ink from gently falling light with Otsu', () => {
+    const result = binarizeInk(litPage(x => 240 - 40 * (x / (W - 1))), W, H, 'otsu');
+    expect(classify(result.mask)).toEqual({ stroke: STROKE.length * W, stray: 0 });
+    expect(result.threshold).toBeGreaterThan(72);
+    expect(result.threshold).toBeLessThanOrEqual(200);
+  });
+
+  it('takes shadowed paper for ink with Otsu, but not with Sauvola', () => {
+    const data = litPage(DEEP_SHADOW);
+    expect(classify(binarizeInk(data, W, H, 'otsu').mask).stray).toBeGreaterThan(0);
+    expect(classify(binarizeInk(data, W, H, 'sauvola').mask)).toEqual({ stroke: STROKE.length * W, stray: 0 });
+  });
+
+  it('leaves transparent pixels out of the Sauvola window', () => {
+    // A light pen stroke along the edge of a cut-out: transparent on the left half
+    const data = litPage(() => 230);
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        const o = (y * W + x) * 4;
+        if (x < W / 2) data[o] = data[o + 1] = data[o + 2] = data[o + 3] = 0;
+        else if (x < W / 2 + 3) data[o] = data[o + 1] = data[o + 2] = 120;
+      }
+    }
+    const { mask } = binarizeInk(data, W, H, 'sauvola');
+    for (let y = 0; y < H; y++) {
+      for (let x = 0; x < W; x++) {
+        expect(mask[y * W + x], `${x},${y}`).toBe(x >= W / 2 && (x < W / 2 + 3 || STROKE.includes(y)) ? 1 : 0);
+      }
+    }
+  });
+
+  it('describes the threshold in the note', () => {
+    const data = litPage(DEEP_SHADOW);
+    expect(binarizeInk(data, W, H, 'fixed').note).toBe('fixed 200');
+    const otsu = binarizeInk(data, W, H, 'otsu');
+    expect(otsu.note).toBe(`otsu ${otsu.threshold}`);
+    const sauvola = binarizeInk(data, W, H, 'sauvola');
+    expect(sauvola.note).toBe(`sauvola (window 9px, k 0.2, mean T ${sauvola.threshold})`);
+
+    const blank = binarizeInk(litPage(() => 240).fill(240), W, H, 'otsu');
+    expect(blank.note).toBe('otsu inconclusive, fixed 200');
+    expect(blank.threshold).toBe(200);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsPoint, StrokePath } from '../types';
+import { fitViewport, inkBounds, spriteOverhang } from '../services/exportLayout';
+
+const point = (x: number, y: number, lineWidth: number): PhysicsPoint => ({ x, y, time: 0, lineWidth, opacity: 1 });
+
+const STROKE: StrokePath = { id: 's0', points: [point(100, 50, 2), point(300, 150, 4)], startTime: 0, endTime: 100 };
+const AIR: StrokePath = { id: 'air-1', type: 'air', points: [point(300, 150, 0), point(900, 900, 0)], startTime: 100, endTime: 200 };
+
+describe('export layout', () => {
+  it('bounds the ink, skipping air paths and padding by half the widest line', () => {
+    expect(inkBounds([STROKE, AIR], 1)).toEqual({ x: 98, y: 48, width: 204, height: 104 });
+    expect(inkBounds([STROKE], 2)).toEqual({ x: 96, y: 46, width: 208, height: 108 });
+    expect(inkBounds([AIR], 1)).toBeNull();
+  });
+
+  it('fits and centres the content in contain mode', () => {
+    const view = fitViewport({ x: 100, y: 50, width: 200, height: 100 }, { width: 1000, height: 1000 }, 'contain', 0);
+    expect(view.scale).toBe(5);
+    // Content lands at x 0..1000, y 250..750
+    expect(100 * view.scale + view.x).toBe(0);
+    expect(50 * view.scale + view.y).toBe(250);
+  });
+
+  it('fills the output in cover mode', () => {
+    const view = fitViewport({ x: 0, y: 0, width: 200, height: 100 }, { width: 1000, height: 1000 }, 'cover', 0);
+    expect(view.scale).toBe(10);
+    expect(view.x).toBe(-500);
+    expect(view.y).toBe(0);
+  });
+
+  it('keeps a margin of the padding times the shorter side', () => {
+    const view = fitViewport({ x: 0, y: 0, width: 100, height: 100 }, { width: 1920, height: 1080 }, 'contain', 0.1);
+    // 108px each side leaves 864px of height
+    expect(view.scale).toBeCloseTo(8.64, 6);
+    expect(view.y).toBeCloseTo(108, 6);
+    expect(view.x).toBeCloseTo((1920 - 864) / 2, 6);
+  });
+
+  it('keeps the overhang free around the fitted content', () => {
+    const overhang = { left: 0, right: 100, top: 200, bottom: 0 };
+    const view = fitViewport({ x: 0, y: 0, width: 100, height: 100 }, { width: 1000, height: 1000 }, 'contain', 0, overhang);
+    // 800px of height left once the top overhang is taken off
+    expect(view.scale).toBe(8);
+    expect(view.y).toBe(200);
+    expect(view.x).toBe(50);
+  });
+
+  it('measures the sprite around its tip, with sway and lift', () => {
+    // Tip at the bottom-left corner of a 100px square, drawn 50px tall
+    const sprite = { width: 100, height: 100, tipX: 0, tipY: 100 };
+    expect(spriteOverhang(sprite, 50, 0, 0)).toEqual({ left: 0, right: 50, top: 50, bottom: 0 });
+
+    const swayed = spriteOverhang(sprite, 50, 0.3, 10);
+    expect(swayed.top).toBeGreaterThan(60);
+    expect(swayed.left).toBeGreaterThan(0);
+    expect(swayed.bottom).toBeGreaterThan(0);
+  });
+});
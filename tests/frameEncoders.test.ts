@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { APNG_MAX_FRAME_BYTES, createApngEncoder } from '../services/frameEncoders';
+
+describe('APNG encoder', () => {
+  it('refuses exports whose frames would not fit in memory', () => {
+    // 4K at 30 fps: about 33 MB a frame
+    expect(() => createApngEncoder({ width: 3840, height: 2160, frameCount: 90 })).toThrow(/needs about 2848 MB.*PNG sequence/);
+  });
+
+  it('accepts exports up to the limit', () => {
+    const frameCount = Math.floor(APNG_MAX_FRAME_BYTES / (640 * 360 * 4));
+    expect(createApngEncoder({ width: 640, height: 360, frameCount }).mimeType).toBe('image/apng');
+  });
+});
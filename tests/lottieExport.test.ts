@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsPoint, StrokePath } from '../types';
+import {
+  buildLottie, LottieAnimation, LottieExportOptions, LottieShapeItem, LottieShapeLayer
+} from '../services/lottieExport';
+
+const OPTIONS: LottieExportOptions = {
+  width: 400,
+  height: 200,
+  fps: 10,
+  durationMs: 1500,
+  strokeColor: '#ff0000',
+  bgColor: '#fdfbf7',
+  thicknessScale: 2
+};
+
+const point = (x: number, time: number): PhysicsPoint => ({ x, y: 100, time, lineWidth: 3, opacity: 1 });
+
+// Slow first half (300ms for 100px), fast second half (100ms for 100px)
+const STROKE: StrokePath = { id: 's0', points: [point(0, 100), point(100, 400), point(200, 500)], startTime: 100, endTime: 500 };
+const AIR: StrokePath = { id: 'air-1', type: 'air', points: [point(200, 500), point(300, 600)], startTime: 500, endTime: 600 };
+const DOT: StrokePath = { id: 's1', type: 'dot', points: [point(300, 600), point(300, 640)], startTime: 600, endTime: 640 };
+
+const shapeLayers = (anim: LottieAnimation) => anim.layers.filter((layer): layer is LottieShapeLayer => layer.ty === 4);
+
+// The item of the given type in a layer's shape group
+const item = <T extends LottieShapeItem['ty']>(layer: LottieShapeLayer, ty: T) => {
+  const found = layer.shapes[0].it.find((it): it is Extract<LottieShapeItem, { ty: T }> => it.ty === ty);
+  if (!found) throw new Error(`No ${ty} in layer ${layer.nm}`);
+  return found;
+};
+
+const trimKeys = (layer: LottieShapeLayer) => item(layer, 'tm').e.k;
+
+describe('Lottie export', () => {
+  it('has the document fields and a paper layer at the bottom', () => {
+    const anim = buildLottie([STROKE, AIR, DOT], OPTIONS);
+    expect(anim).toMatchObject({ fr: 10, ip: 0, op: 15, w: 400, h: 200, assets: [] });
+    // Air paths leave no layer
+    expect(anim.layers).toHaveLength(3);
+    expect(anim.layers[anim.layers.length - 1]).toMatchObject({ ty: 1, sc: '#fdfbf7', sw: 400, sh: 200 });
+    expect(new Set(anim.layers.map(layer => layer.ind)).size).toBe(3);
+  });
+
+  it('has no paper layer when the paper is transparent', () => {
+    const anim = buildLottie([STROKE, DOT], { ...OPTIONS, bgColor: null });
+    expect(anim.layers).toHaveLength(2);
+    expect(anim.layers.every(layer => layer.ty === 4)).toBe(true);
+  });
+
+  it('maps ink colour and width onto the stroke', () => {
+    const [, strokeLayer] = shapeLayers(buildLottie([STROKE, DOT], OPTIONS));
+    const stroke = item(strokeLayer, 'st');
+    expect(stroke.c.k).toEqual([1, 0, 0, 1]);
+    expect(stroke.w.k).toBe(6);
+  });
+
+  it('keys the trim path to the pen timing', () => {
+    const [layer] = shapeLayers(buildLottie([STROKE], OPTIONS));
+    const keys = trimKeys(layer);
+    expect(keys[0]).toMatchObject({ t: 1, s: [0] });
+    expect(keys[keys.length - 1]).toMatchObject({ t: 5, s: [100] });
+    // Halfway along the line is reached at 400ms (frame 4), not at the midpoint in time
+    expect(keys.find(key => key.t === 4)?.s[0]).toBeCloseTo(50, 6);
+    for (let i = 1; i < keys.length; i++) expect(keys[i].s[0]).toBeGreaterThanOrEqual(keys[i - 1].s[0]);
+  });
+
+  it('never keys two trim values on the same frame', () => {
+    // Ends a hair off a whole frame, which used to round onto the neighbouring frame key
+    const offFrame: StrokePath = { ...STROKE, startTime: 99.9999, endTime: 500.0001 };
+    for (const path of [STROKE, offFrame]) {
+      const times = trimKeys(shapeLayers(buildLottie([path], OPTIONS))[0]).map(key => key.t);
+      for (let i = 1; i < times.length; i++) expect(times[i]).toBeGreaterThan(times[i - 1]);
+    }
+  });
+
+  it('shows dots from the tap onwards', () => {
+    const [dotLayer] = shapeLayers(buildLottie([STROKE, DOT], OPTIONS));
+    expect(dotLayer.nm).toBe('s1');
+    expect(dotLayer.ip).toBe(6);
+    expect(dotLayer.shapes[0].it.map(it => it.ty)).toEqual(['el', 'fl', 'tr']);
+  });
+
+  it('places ink layers through the viewport, leaving the paper full size', () => {
+    const { layers } = buildLottie([STROKE, DOT], { ...OPTIONS, view: { scale: 1.5, x: 20, y: -10 } });
+    const paper = layers[layers.length - 1];
+    for (const layer of layers.slice(0, -1)) expect(layer.ks).toMatchObject({ p: { k: [20, -10, 0] }, s: { k: [150, 150, 100] } });
+    expect(paper.ks).toMatchObject({ p: { k: [0, 0, 0] }, s: { k: [100, 100, 100] } });
+  });
+
+  // The keys lottie-web reads without a fallback: the document header, and per layer its
+  // type, index, transform and time range
+  it('has the keys lottie-web requires', () => {
+    const anim = buildLottie([STROKE, AIR, DOT], OPTIONS);
+    // Round-tripped, so keys holding undefined would be missing as in the file
+    const json: LottieAnimation = JSON.parse(JSON.stringify(anim));
+    for (const key of ['v', 'fr', 'ip', 'op', 'w', 'h', 'layers']) expect(json, key).toHaveProperty(key);
+    expect(typeof json.v).toBe('string');
+    expect(json.op).toBeGreaterThan(json.ip);
+
+    for (const layer of json.layers) {
+      for (const key of ['ty', 'ind', 'ks', 'ip', 'op', 'st']) expect(layer, key).toHaveProperty(key);
+      for (const key of ['o', 'r', 'p', 'a', 's'] as const) {
+        expect(layer.ks[key], key).toHaveProperty('a');
+        expect(layer.ks[key], key).toHaveProperty('k');
+      }
+      expect(layer.op).toBeGreaterThan(layer.ip);
+    }
+    for (const layer of shapeLayers(anim)) {
+      for (const group of layer.shapes) {
+        expect(group.ty).toBe('gr');
+        // Lottie expects the group transform last
+        expect(group.it[group.it.length - 1].ty).toBe('tr');
+      }
+    }
+  });
+});
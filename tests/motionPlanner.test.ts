@@ -0,0 +1,256 @@
+import { describe, expect, it } from 'vitest';
+import { HandwritingStyle, SignatureAnalysis } from '../types';
+import { generateMotionPlan } from '../services/motionPlanner';
+import { EASINGS, getEasing } from '../services/easing';
+
+const STYLE: HandwritingStyle = {
+  label: "Test",
+  speed_multiplier: 1,
+  base_ms_per_px: 1.2,
+  easing_start: "linear",
+  easing_end: "linear",
+  pressure_curve: "soft-peaked",
+  pressure_scale: 1,
+  micro_tremor_amp_px: 0,
+  micro_tremor_freq_hz: 0,
+  overshoot_intensity: 0,
+  ink_spread: 'light',
+  slant_angle_deg: 0,
+  inertia_factor: 0,
+  connection_smoothing: "high"
+};
+
+// One straight horizontal stroke, evenly sampled
+const LINE: SignatureAnalysis = {
+  strokes: [{
+    points: Array.from({ length: 41 }, (_, i) => ({ x: 1000 + i * 200, y: 5000, z: 30 }))
+  }],
+  metadata: { original_size: [1000, 500], notes: "" }
+};
+
+const plan = (style: Partial<HandwritingStyle>) => generateMotionPlan(LINE, 1000, 500, { ...STYLE, ...style });
+
+describe('easing library', () => {
+  it('maps 0 to 0 and 1 to 1 for every easing', () => {
+    for (const [name, ease] of Object.entries(EASINGS)) {
+      expect(ease(0), name).toBeCloseTo(0, 6);
+      expect(ease(1), name).toBeCloseTo(1, 6);
+    }
+  });
+
+  it('rejects unknown names with the list of known ones', () => {
+    expect(() => getEasing('easeOutWobble')).toThrow(/Unknown easing "easeOutWobble".*easeOutCubic/);
+    expect(() => plan({ easing_start: 'easeOutWobble' })).toThrow(/Unknown easing/);
+  });
+});
+
+describe('motion planner easing', () => {
+  it('keeps the stroke duration and point order', () => {
+    const linear = plan({})[0];
+    const eased = plan({ easing_start: 'easeInQuad', easing_end: 'easeOutCubic' })[0];
+
+    expect(eased.startTime).toBe(linear.startTime);
+    expect(eased.endTime).toBe(linear.endTime);
+    expect(eased.points[0].time).toBeCloseTo(linear.points[0].time, 6);
+    expect(eased.points[eased.points.length - 1].time).toBeCloseTo(linear.endTime, 6);
+    for (let i = 1; i < eased.points.length; i++) {
+      expect(eased.points[i].time).toBeGreaterThanOrEqual(eased.points[i - 1].time);
+    }
+  });
+
+  it('accelerates after pen-down and brakes before pen-up', () => {
+    const linear = plan({})[0].points;
+    const eased = plan({ easing_start: 'easeInQuad', easing_end: 'easeOutQuad' })[0].points;
+    const last = linear.length - 1;
+
+    // Slow start: the pen reaches the second point later than at constant speed
+    expect(eased[1].time).toBeGreaterThan(linear[1].time);
+    // Slow finish: the gap before the last point is wider
+    expect(eased[last].time - eased[last - 1].time).toBeGreaterThan(linear[last].time - linear[last - 1].time);
+    // The middle keeps its natural pace
+    const mid = Math.floor(last / 2);
+    expect(eased[mid + 1].time - eased[mid].time).toBeCloseTo(linear[mid + 1].time - linear[mid].time, 3);
+  });
+
+  it('gives presets with different easings different timing', () => {
+    const a = plan({ easing_start: 'easeOutCubic', easing_end: 'easeInOutCubic' })[0].points;
+    const b = plan({ easing_start: 'easeOutBack', easing_end: 'easeInOutBack' })[0].points;
+    expect(a.map(p => p.time)).not.toEqual(b.map(p => p.time));
+  });
+
+  it('runs the tremor on the eased clock', () => {
+    const points = plan({ easing_start: 'easeInQuad', easing_end: 'easeOutQuad', micro_tremor_amp_px: 0.5, micro_tremor_freq_hz: 8 })[0].points;
+    // The line sits at y = 250, so the vertical offset is the tremor at each point's final time
+    for (const p of points) {
+      expect(p.y - 250).toBeCloseTo(0.5 * Math.cos((p.time / 1000) * 8 * Math.PI * 2), 6);
+    }
+  });
+});
+
+describe('motion planner pressure', () => {
+  const widths = (style: Partial<HandwritingStyle>, data: SignatureAnalysis = LINE) =>
+    generateMotionPlan(data, 1000, 500, { ...STYLE, ...style })[0].points.map(p => p.lineWidth);
+
+  it('rejects unknown pressure curves', () => {
+    expect(() => widths({ pressure_curve: 'spiky' })).toThrow(/Unknown pressure curve "spiky"/);
+  });
+
+  it('tapers the entry and exit of every curve', () => {
+    for (const curve of ['soft-peaked', 'triangular', 'waveform']) {
+      const w = widths({ pressure_curve: curve });
+      const peak = Math.max(...w);
+      expect(w[0], curve).toBeLessThan(peak * 0.8);
+      expect(w[w.length - 1], curve).toBeLessThan(peak * 0.8);
+      // Blended with the traced width, never thicker than it
+      expect(peak, curve).toBeLessThanOrEqual(3 + 1e-9);
+    }
+  });
+
+  it('gives the curves distinct profiles', () => {
+    const soft = widths({ pressure_curve: 'soft-peaked' });
+    const triangular = widths({ pressure_curve: 'triangular' });
+    // Triangular peaks early, soft-peaked holds its width through the middle
+    expect(triangular.indexOf(Math.max(...triangular))).toBeLessThan(soft.length / 2 - 2);
+    expect(soft[Math.floor(soft.length / 2)]).toBeGreaterThan(triangular[Math.floor(triangular.length / 2)]);
+  });
+
+  it('uses recorded pressure over the style curve', () => {
+    const pressure = LINE.strokes[0].points.map((_, i) => (i % 2 === 0 ? 1 : 0));
+    const w = widths({}, { ...LINE, strokes: [{ ...LINE.strokes[0], pressure }] });
+    expect(w[0]).toBeCloseTo(3, 6);
+    expect(w[1]).toBeCloseTo(1.5, 6);
+    expect(w[2]).toBeCloseTo(3, 6);
+  });
+});
+
+describe('motion planner overshoot', () => {
+  it('adds no tail without overshoot', () => {
+    const path = plan({})[0];
+    expect(path.tailStart).toBeUndefined();
+    expect(path.points[path.points.length - 1].x).toBeCloseTo(900, 6);
+  });
+
+  it('continues past the stroke end and fades to nothing', () => {
+    const path = plan({ overshoot_intensity: 0.35 })[0];
+    expect(path.tailStart).toBeDefined();
+    const traced = path.points[path.tailStart!];
+    const tail = path.points.slice(path.tailStart! + 1);
+    expect(traced.x).toBeCloseTo(900, 6);
+
+    // Straight stroke, straight tail heading the same way
+    for (const p of tail) expect(p.y).toBeCloseTo(250, 6);
+    for (let i = 1; i < tail.length; i++) {
+      expect(tail[i].x).toBeGreaterThan(tail[i - 1].x);
+      expect(tail[i].opacity).toBeLessThan(tail[i - 1].opacity);
+      expect(tail[i].lineWidth).toBeLessThan(tail[i - 1].lineWidth);
+    }
+    expect(tail[tail.length - 1].opacity).toBe(0);
+    expect(path.endTime).toBe(tail[tail.length - 1].time);
+  });
+
+  it('sizes the tail by overshoot_intensity', () => {
+    const tailLength = (intensity: number) => {
+      const path = plan({ overshoot_intensity: intensity })[0];
+      return path.points[path.points.length - 1].x - path.points[path.tailStart!].x;
+    };
+    expect(tailLength(0.35)).toBeCloseTo(tailLength(0.05) * 7, 6);
+  });
+});
+
+describe('motion planner slant', () => {
+  // Upright downstroke from y=2000 to the baseline at y=8000
+  const UPRIGHT: SignatureAnalysis = {
+    strokes: [{ points: Array.from({ length: 13 }, (_, i) => ({ x: 5000, y: 2000 + i * 500, z: 30 })) }],
+    metadata: { original_size: [1000, 1000], notes: "", slant_deg: 0 }
+  };
+  const reslant = (slant: number, data = UPRIGHT) =>
+    generateMotionPlan(data, 1000, 1000, { ...STYLE, slant_angle_deg: slant }, { reslant: true })[0].points;
+
+  it('leaves the geometry alone unless asked', () => {
+    const points = generateMotionPlan(UPRIGHT, 1000, 1000, { ...STYLE, slant_angle_deg: 20 })[0].points;
+    for (const p of points) expect(p.x).toBeCloseTo(500, 6);
+  });
+
+  it('shears around the baseline to the preset slant', () => {
+    const points = reslant(20);
+    const top = points[0], bottom = points[points.length - 1];
+    expect(bottom.x).toBeLessThan(top.x);
+    // Measured from vertical, top leaning right
+    const angle = Math.atan2(top.x - bottom.x, bottom.y - top.y) * 180 / Math.PI;
+    expect(angle).toBeCloseTo(20, 3);
+  });
+
+  it('only corrects the difference to the measured slant', () => {
+    const points = reslant(12, { ...UPRIGHT, metadata: { ...UPRIGHT.metadata, slant_deg: 12 } });
+    for (const p of points) expect(p.x).toBeCloseTo(500, 6);
+  });
+});
+
+describe('motion planner air strokes', () => {
+  // Two downstrokes side by side: the pen leaves the first heading down and enters the second heading down
+  const TWO: SignatureAnalysis = {
+    strokes: [2000, 6000].map(x => ({
+      points: Array.from({ length: 9 }, (_, i) => ({ x, y: 2000 + i * 750, z: 30 }))
+    })),
+    metadata: { original_size: [1000, 1000], notes: "" }
+  };
+  const planAir = (style: Partial<HandwritingStyle>, airStrokes = true) =>
+    generateMotionPlan(TWO, 1000, 1000, { ...STYLE, ...style }, { airStrokes });
+
+  // Furthest distance of the hover path from the straight jump
+  const bulge = (smoothing: string) => {
+    const air = planAir({ connection_smoothing: smoothing }).find(p => p.type === 'air')!;
+    const a = air.points[0], b = air.points[air.points.length - 1];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    return Math.max(...air.points.map(p => Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / len));
+  };
+
+  it('adds no air paths unless asked', () => {
+    expect(planAir({}, false).map(p => p.type ?? 'stroke')).toEqual(['stroke', 'stroke']);
+  });
+
+  it('bridges the pen lift without changing the ink timing', () => {
+    const plain = planAir({}, false);
+    const paths = planAir({});
+    expect(paths.map(p => p.id)).toEqual(['stroke-0', 'air-1', 'stroke-1']);
+
+    const [first, air, second] = paths;
+    expect(second.startTime).toBe(plain[1].startTime);
+    expect(air.startTime).toBe(first.endTime);
+    expect(air.endTime).toBe(second.startTime);
+    expect(air.points[0]).toMatchObject({ x: first.points[first.points.length - 1].x, y: first.points[first.points.length - 1].y });
+    expect(air.points[air.points.length - 1]).toMatchObject({ x: second.points[0].x, y: second.points[0].y });
+    for (const p of air.points) {
+      expect(p.opacity).toBe(0);
+      expect(p.lineWidth).toBe(0);
+    }
+  });
+
+  it('lifts from the end of the overshoot tail', () => {
+    // Two short dashes in a row, the first one's tail flicks towards the second
+    const dashes: SignatureAnalysis = {
+      strokes: [1000, 5000].map(x => ({
+        points: Array.from({ length: 11 }, (_, i) => ({ x: x + i * 200, y: 5000, z: 30 }))
+      })),
+      metadata: { original_size: [1000, 1000], notes: "" }
+    };
+    const [first, air, second] = generateMotionPlan(dashes, 1000, 1000, { ...STYLE, overshoot_intensity: 0.35 }, { airStrokes: true });
+    const end = first.points[first.points.length - 1];
+    expect(first.tailStart).toBeDefined();
+    expect(air.points[0]).toMatchObject({ x: end.x, y: end.y });
+    // The lift is timed over the jump the hovering pen makes
+    const jump = Math.hypot(second.points[0].x - end.x, second.points[0].y - end.y);
+    expect(second.startTime - first.endTime).toBeCloseTo(Math.min(jump * 0.5, 250) + 50, 6);
+  });
+
+  it('shapes the hover path by connection_smoothing', () => {
+    expect(bulge('none')).toBeLessThan(1e-6);
+    expect(bulge('low')).toBeGreaterThan(10);
+    expect(bulge('extreme')).toBeGreaterThan(bulge('low') * 2);
+  });
+
+  it('rejects unknown connection smoothing when air strokes are on', () => {
+    expect(() => planAir({ connection_smoothing: 'wavy' }, false)).not.toThrow();
+    expect(() => planAir({ connection_smoothing: 'wavy' })).toThrow(/Unknown connection smoothing "wavy"/);
+  });
+});
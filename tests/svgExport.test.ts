@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsPoint, StrokePath } from '../types';
+import { buildAnimatedSvg, SvgExportOptions } from '../services/svgExport';
+
+const OPTIONS: SvgExportOptions = {
+  width: 400,
+  height: 200,
+  strokeColor: '#112233',
+  bgColor: '#fdfbf7',
+  thicknessScale: 1,
+  mode: 'css'
+};
+
+const point = (x: number, time: number, lineWidth: number): PhysicsPoint => ({ x, y: 100, time, lineWidth, opacity: 1 });
+
+// Thin for the first half, thick for the second
+const STROKE: StrokePath = {
+  id: 's0',
+  points: [point(0, 100, 2), point(50, 200, 2), point(100, 300, 4), point(150, 400, 4), point(200, 500, 4)],
+  startTime: 100,
+  endTime: 500
+};
+const AIR: StrokePath = { id: 'air-1', type: 'air', points: [point(200, 500, 0), point(250, 600, 0)], startTime: 500, endTime: 600 };
+const DOT: StrokePath = { id: 's1', type: 'dot', points: [point(300, 600, 6), point(300, 640, 6)], startTime: 600, endTime: 640 };
+
+const delays = (svg: string) => [...svg.matchAll(/draw (\d+)ms linear (\d+)ms/g)].map(m => ({ duration: +m[1], start: +m[2] }));
+
+describe('animated SVG export', () => {
+  it('splits a stroke into width runs timed to the plan', () => {
+    const svg = buildAnimatedSvg([STROKE], OPTIONS);
+    expect(svg.match(/<path /g)).toHaveLength(2);
+    expect(svg).toContain('stroke-width="2"');
+    expect(svg).toContain('stroke-width="4"');
+
+    const runs = delays(svg);
+    expect(runs[0].start).toBe(STROKE.startTime);
+    expect(runs[1].start + runs[1].duration).toBe(STROKE.endTime);
+    // The runs meet at the point where the width changes
+    expect(runs[0].start + runs[0].duration).toBe(runs[1].start);
+  });
+
+  it('keeps ink and paper colours and skips air paths', () => {
+    const svg = buildAnimatedSvg([STROKE, AIR, DOT], OPTIONS);
+    expect(svg).toContain('stroke: #112233');
+    expect(svg).toContain('fill="#fdfbf7"');
+    expect(svg).not.toContain('M200 100 L250 100');
+    expect(svg).toMatch(/<circle [^>]*cx="300" cy="100" r="3"/);
+  });
+
+  it('leaves the paper out when it is transparent', () => {
+    const svg = buildAnimatedSvg([STROKE], { ...OPTIONS, bgColor: null });
+    expect(svg).not.toContain('<rect');
+  });
+
+  it('uses SMIL elements instead of keyframes in smil mode', () => {
+    const svg = buildAnimatedSvg([STROKE, DOT], { ...OPTIONS, mode: 'smil' });
+    expect(svg).not.toContain('@keyframes');
+    expect(svg).toContain('<animate attributeName="stroke-dashoffset" from="1" to="0" begin="100ms" dur="200ms" fill="freeze"/>');
+    expect(svg).toContain('<set attributeName="visibility" to="visible" begin="600ms" fill="freeze"/>');
+  });
+
+  it('places the ink through the viewport, leaving the paper full size', () => {
+    const svg = buildAnimatedSvg([STROKE], { ...OPTIONS, view: { scale: 2, x: 10, y: -20.5 } });
+    expect(svg).toContain('<g transform="matrix(2 0 0 2 10 -20.5)">');
+    expect(svg.indexOf('<rect')).toBeLessThan(svg.indexOf('<g '));
+  });
+});
@@ -0,0 +1,50 @@
+import { RgbaImage } from '../services/tracerCore';
+
+// Helpers for building synthetic signature bitmaps: dark round-pen ink on white paper
+
+export interface Pt { x: number, y: number }
+
+// Grey level, or an [r, g, b] colour for coloured ink
+export type Ink = number | [number, number, number];
+
+export const blankPage = (width: number, height: number): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+  return { data, width, height };
+};
+
+// Stamp a filled disc of ink
+export const dot = (image: RgbaImage, cx: number, cy: number, radius: number, ink: Ink = 20) => {
+  const { data, width, height } = image;
+  const [r, g, b] = typeof ink === 'number' ? [ink, ink, ink] : ink;
+  for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+    for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      if ((x - cx) ** 2 + (y - cy) ** 2 > radius * radius) continue;
+      const o = (y * width + x) * 4;
+      data[o] = r;
+      data[o + 1] = g;
+      data[o + 2] = b;
+    }
+  }
+};
+
+// Drag a round pen of the given radius along a polyline
+export const polyline = (image: RgbaImage, points: Pt[], radius: number, ink?: Ink) => {
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y)));
+    for (let s = 0; s <= steps; s++) {
+      const t = s / steps;
+      dot(image, a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, radius, ink);
+    }
+  }
+};
+
+export const ellipsePoints = (cx: number, cy: number, rx: number, ry: number, segments = 64): Pt[] => {
+  const points: Pt[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const a = (i / segments) * Math.PI * 2;
+    points.push({ x: cx + Math.cos(a) * rx, y: cy + Math.sin(a) * ry });
+  }
+  return points;
+};
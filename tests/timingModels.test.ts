@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getTimingModel, TimingParams } from '../services/timingModels';
+
+const PARAMS: TimingParams = { baseMsPerPx: 1, inertia: 0, speedMultiplier: 1 };
+
+// Polyline resampled every `step` px
+const sample = (corners: { x: number, y: number }[], step = 5) => {
+  const points = [corners[0]];
+  for (let i = 1; i < corners.length; i++) {
+    const a = corners[i - 1], b = corners[i];
+    const n = Math.round(Math.hypot(b.x - a.x, b.y - a.y) / step);
+    for (let k = 1; k <= n; k++) points.push({ x: a.x + ((b.x - a.x) * k) / n, y: a.y + ((b.y - a.y) * k) / n });
+  }
+  return points;
+};
+
+const STRAIGHT = sample([{ x: 0, y: 0 }, { x: 300, y: 0 }]);
+// Long run, sharp turn, long run
+const CORNER = sample([{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 200 }]);
+
+// Speed (px/ms) over segment i
+const speeds = (points: { x: number, y: number }[], times: number[]) =>
+  points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y) / (times[i + 1] - times[i]));
+
+describe('timing models', () => {
+  it('rejects unknown names', () => {
+    expect(() => getTimingModel('teleport')).toThrow(/Unknown timing model "teleport"/);
+  });
+
+  it('ms-per-px moves at constant speed on a straight line', () => {
+    const times = getTimingModel('ms-per-px')(STRAIGHT, { ...PARAMS, baseMsPerPx: 1.2 });
+    expect(times[0]).toBe(0);
+    expect(times[times.length - 1]).toBeCloseTo(360, 6);
+    for (const v of speeds(STRAIGHT, times)) expect(v).toBeCloseTo(1 / 1.2, 6);
+  });
+
+  for (const name of ['ms-per-px', 'sigma-lognormal']) {
+    it(`${name} starts at zero and never goes back in time`, () => {
+      const times = getTimingModel(name)(CORNER, PARAMS);
+      expect(times).toHaveLength(CORNER.length);
+      expect(times[0]).toBe(0);
+      for (let i = 1; i < times.length; i++) expect(times[i]).toBeGreaterThanOrEqual(times[i - 1]);
+    });
+  }
+
+  it('sigma-lognormal speeds up from pen-down and slows before pen-up', () => {
+    const v = speeds(STRAIGHT, getTimingModel('sigma-lognormal')(STRAIGHT, PARAMS));
+    const peak = Math.max(...v);
+    expect(v[0]).toBeLessThan(peak / 3);
+    expect(v[v.length - 1]).toBeLessThan(peak / 3);
+  });
+
+  it('sigma-lognormal slows into a sharp turn', () => {
+    const v = speeds(CORNER, getTimingModel('sigma-lognormal')(CORNER, PARAMS));
+    const corner = CORNER.findIndex(p => p.x === 200 && p.y === 0);
+    const atCorner = Math.min(v[corner - 1], v[corner]);
+    const firstRun = Math.max(...v.slice(0, corner));
+    const secondRun = Math.max(...v.slice(corner));
+    expect(atCorner).toBeLessThan(firstRun * 0.6);
+    expect(atCorner).toBeLessThan(secondRun * 0.6);
+  });
+
+  it('sigma-lognormal scales with speed_multiplier', () => {
+    const model = getTimingModel('sigma-lognormal');
+    const slow = model(CORNER, PARAMS);
+    const fast = model(CORNER, { ...PARAMS, speedMultiplier: 2 });
+    expect(fast[fast.length - 1]).toBeCloseTo(slow[slow.length - 1] / 2, 6);
+  });
+});
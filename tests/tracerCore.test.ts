@@ -0,0 +1,360 @@
+import { describe, expect, it } from 'vitest';
+import { RawPoint, SignatureAnalysis } from '../types';
+import { traceSignaturePixels, TracingMode } from '../services/tracerCore';
+import { blankPage, dot, ellipsePoints, polyline } from './synthetic';
+
+// Golden-file regression tests for the tracer core. Each synthetic bitmap is
+// traced in both modes and the full stroke output is compared against
+// tests/__golden__. After an intended change to the output, review the diff
+// and regenerate with `npx vitest run -u`.
+
+const SHAPES = {
+  line: () => {
+    const image = blankPage(240, 120);
+    polyline(image, [{ x: 30, y: 60 }, { x: 210, y: 60 }], 3);
+    return image;
+  },
+  diagonal: () => {
+    const image = blankPage(240, 160);
+    polyline(image, [{ x: 30, y: 140 }, { x: 210, y: 20 }], 3);
+    return image;
+  },
+  loop: () => {
+    const image = blankPage(240, 160);
+    polyline(image, ellipsePoints(120, 80, 70, 50), 3);
+    return image;
+  },
+  crossing: () => {
+    const image = blankPage(240, 160);
+    polyline(image, [{ x: 30, y: 20 }, { x: 210, y: 140 }], 3);
+    polyline(image, [{ x: 30, y: 140 }, { x: 210, y: 20 }], 3);
+    return image;
+  },
+  dots: () => {
+    const image = blankPage(240, 120);
+    dot(image, 60, 60, 4);
+    dot(image, 120, 60, 4);
+    dot(image, 180, 60, 4);
+    return image;
+  },
+  parallel: () => {
+    const image = blankPage(240, 160);
+    polyline(image, [{ x: 30, y: 40 }, { x: 210, y: 40 }], 3);
+    polyline(image, [{ x: 30, y: 120 }, { x: 210, y: 120 }], 3);
+    return image;
+  }
+};
+
+type ShapeName = keyof typeof SHAPES;
+
+const trace = (shape: ShapeName, mode: TracingMode) => traceSignaturePixels(SHAPES[shape](), undefined, { mode });
+
+// Thickness/opacity are floats, rounded so the golden files don't churn on the last digit
+const serialize = (analysis: SignatureAnalysis) => JSON.stringify({
+  strokes: analysis.strokes.map(stroke => ({
+    ...stroke,
+    points: stroke.points.map(p => [p.x, p.y, Number(p.z.toFixed(2)), Number(p.a.toFixed(2))])
+  })),
+  metadata: analysis.metadata
+}, null, 1) + '\n';
+
+// Maps a pixel position on the synthetic page into the 0-10000 output space
+const toOutput = (x: number, y: number, width: number, height: number) => ({ x: (x / width) * 10000, y: (y / height) * 10000 });
+
+const near = (p: RawPoint, target: { x: number, y: number }, tolerance: number) =>
+  Math.hypot(p.x - target.x, p.y - target.y) <= tolerance;
+
+const endpoints = (analysis: SignatureAnalysis) =>
+  analysis.strokes.map(s => [s.points[0], s.points[s.points.length - 1]]);
+
+describe('tracer core golden files', () => {
+  for (const shape of Object.keys(SHAPES) as ShapeName[]) {
+    for (const mode of ['walker', 'skeleton'] as TracingMode[]) {
+      it(`${shape} (${mode})`, async () => {
+        await expect(serialize(trace(shape, mode))).toMatchFileSnapshot(`./__golden__/${shape}-${mode}.json`);
+      });
+    }
+  }
+});
+
+describe('tracer core geometry', () => {
+  it('is deterministic', () => {
+    expect(serialize(trace('crossing', 'walker'))).toBe(serialize(trace('crossing', 'walker')));
+  });
+
+  it('reports the original size and mode in metadata', () => {
+    const result = traceSignaturePixels(SHAPES.line(), [2400, 1200], { mode: 'skeleton', threshold: 'fixed' });
+    expect(result.metadata.original_size).toEqual([2400, 1200]);
+    expect(result.metadata.notes).toContain('Mode: skeleton');
+    expect(result.metadata.notes).toContain('Threshold: fixed 200');
+  });
+
+  it('returns no strokes for a blank page', () => {
+    expect(traceSignaturePixels(blankPage(120, 80)).strokes).toEqual([]);
+  });
+
+  it('traces a straight line as one stroke between its ends (skeleton)', () => {
+    const result = trace('line', 'skeleton');
+    expect(result.strokes).toHaveLength(1);
+
+    const [[start, end]] = endpoints(result);
+    const left = toOutput(30, 60, 240, 120), right = toOutput(210, 60, 240, 120);
+    const tolerance = 300;
+    expect(near(start, left, tolerance) && near(end, right, tolerance) || near(start, right, tolerance) && near(end, left, tolerance)).toBe(true);
+  });
+
+  it('traces a closed loop as one closed stroke (skeleton)', () => {
+    const result = trace('loop', 'skeleton');
+    expect(result.strokes).toHaveLength(1);
+
+    const [[start, end]] = endpoints(result);
+    expect(near(start, end, 200)).toBe(true);
+  });
+
+  it('continues both lines through a crossing (skeleton)', () => {
+    const result = trace('crossing', 'skeleton');
+    expect(result.strokes).toHaveLength(2);
+
+    // Each stroke runs corner to corner, i.e. spans most of the page in both axes
+    for (const stroke of result.strokes) {
+      const xs = stroke.points.map(p => p.x), ys = stroke.points.map(p => p.y);
+      expect(Math.max(...xs) - Math.min(...xs)).toBeGreaterThan(7000);
+      expect(Math.max(...ys) - Math.min(...ys)).toBeGreaterThan(7000);
+    }
+  });
+
+  it('traces a closed loop as one closed stroke (walker)', () => {
+    const result = trace('loop', 'walker');
+    expect(result.strokes).toHaveLength(1);
+
+    const [[start, end]] = endpoints(result);
+    expect(near(start, end, 200)).toBe(true);
+  });
+
+  it('continues both lines through a crossing (walker)', () => {
+    const result = trace('crossing', 'walker');
+    expect(result.strokes).toHaveLength(2);
+
+    const junction = toOutput(120, 80, 240, 160);
+    for (const stroke of result.strokes) {
+      const xs = stroke.points.map(p => p.x), ys = stroke.points.map(p => p.y);
+      expect(Math.max(...xs) - Math.min(...xs)).toBeGreaterThan(7000);
+      expect(Math.max(...ys) - Math.min(...ys)).toBeGreaterThan(7000);
+      expect(stroke.points.some(p => near(p, junction, 300))).toBe(true);
+    }
+  });
+
+  it('keeps separate lines as separate strokes, top first', () => {
+    for (const mode of ['walker', 'skeleton'] as TracingMode[]) {
+      const result = trace('parallel', mode);
+      expect(result.strokes).toHaveLength(2);
+      expect(result.strokes[0].points[0].y).toBeLessThan(result.strokes[1].points[0].y);
+    }
+  });
+
+  it('keeps each dot as its own stroke', () => {
+    for (const mode of ['walker', 'skeleton'] as TracingMode[]) {
+      const result = trace('dots', mode);
+      expect(result.strokes).toHaveLength(3);
+      expect(result.strokes.every(s => s.type === 'dot' && s.points.length === 1)).toBe(true);
+      expect(result.strokes.map(s => Math.round(s.points[0].x / 100) * 100)).toEqual([2500, 5000, 7500]);
+    }
+  });
+
+  it('detects an i-dot above a stroke as a dot', () => {
+    const image = blankPage(240, 160);
+    polyline(image, [{ x: 120, y: 60 }, { x: 120, y: 130 }], 3);
+    dot(image, 120, 25, 5);
+    for (const mode of ['walker', 'skeleton'] as TracingMode[]) {
+      const result = traceSignaturePixels(image, undefined, { mode });
+      const dots = result.strokes.filter(s => s.type === 'dot');
+      expect(dots).toHaveLength(1);
+      expect(near(dots[0].points[0], toOutput(120, 25, 240, 160), 150)).toBe(true);
+      // Dot diameter (~10-11px) as thickness
+      const diameter = dots[0].points[0].z! / 10000 * 240;
+      expect(diameter).toBeGreaterThan(9);
+      expect(diameter).toBeLessThan(12);
+      expect(result.strokes.filter(s => s.type !== 'dot')).toHaveLength(1);
+    }
+  });
+
+  it('orders and directs strokes by the script direction', () => {
+    // Two words side by side, each a short stroke
+    const image = blankPage(300, 120);
+    polyline(image, [{ x: 30, y: 60 }, { x: 110, y: 70 }], 3);
+    polyline(image, [{ x: 190, y: 60 }, { x: 270, y: 70 }], 3);
+
+    const ltr = traceSignaturePixels(image, undefined, { mode: 'skeleton', order: 'ltr' });
+    expect(ltr.metadata.stroke_order).toBe('ltr');
+    expect(ltr.strokes[0].points[0].x).toBeLessThan(ltr.strokes[1].points[0].x);
+    expect(ltr.strokes[0].points[0].x).toBeLessThan(ltr.strokes[0].points[ltr.strokes[0].points.length - 1].x);
+
+    const rtl = traceSignaturePixels(image, undefined, { mode: 'skeleton', order: 'rtl' });
+    expect(rtl.metadata.stroke_order).toBe('rtl');
+    expect(rtl.strokes[0].points[0].x).toBeGreaterThan(rtl.strokes[1].points[0].x);
+    expect(rtl.strokes[0].points[0].x).toBeGreaterThan(rtl.strokes[0].points[rtl.strokes[0].points.length - 1].x);
+  });
+
+  it('orders columns top to bottom', () => {
+    const image = blankPage(160, 300);
+    polyline(image, [{ x: 60, y: 200 }, { x: 70, y: 270 }], 3);
+    polyline(image, [{ x: 90, y: 30 }, { x: 100, y: 110 }], 3);
+
+    const result = traceSignaturePixels(image, undefined, { mode: 'skeleton', order: 'ttb' });
+    expect(result.strokes[0].points[0].y).toBeLessThan(result.strokes[1].points[0].y);
+    expect(result.strokes[0].points[0].y).toBeLessThan(result.strokes[0].points[result.strokes[0].points.length - 1].y);
+  });
+
+  it('draws the headline first in headline-first order', () => {
+    // Shirorekha across the top with two letters hanging below it
+    const image = blankPage(300, 160);
+    polyline(image, [{ x: 60, y: 40 }, { x: 270, y: 40 }], 3);
+    polyline(image, [{ x: 30, y: 130 }, { x: 80, y: 60 }], 3);
+    polyline(image, [{ x: 200, y: 60 }, { x: 200, y: 130 }], 3);
+
+    // Left to right the first letter reaches further left than the headline and goes first
+    const ltr = traceSignaturePixels(image, undefined, { mode: 'skeleton', order: 'ltr' });
+    expect(ltr.strokes[0].points.every(p => p.y < 3000)).toBe(false);
+
+    const result = traceSignaturePixels(image, undefined, { mode: 'skeleton', order: 'headline-first' });
+    const [headline] = result.strokes;
+    expect(headline.points.every(p => Math.abs(p.y - 2500) < 300)).toBe(true);
+    expect(headline.points[0].x).toBeLessThan(headline.points[headline.points.length - 1].x);
+  });
+
+  it('keeps every traced point on ink', () => {
+    for (const shape of Object.keys(SHAPES) as ShapeName[]) {
+      const image = SHAPES[shape]();
+      const result = traceSignaturePixels(image, undefined, { mode: 'skeleton' });
+      for (const stroke of result.strokes) {
+        for (const p of stroke.points) {
+          const x = Math.round((p.x / 10000) * image.width), y = Math.round((p.y / 10000) * image.height);
+          let onInk = false;
+          for (let dy = -2; dy <= 2 && !onInk; dy++) {
+            for (let dx = -2; dx <= 2 && !onInk; dx++) {
+              const o = ((y + dy) * image.width + (x + dx)) * 4;
+              if (image.data[o] < 128) onInk = true;
+            }
+          }
+          expect(onInk).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('measures the same thickness for horizontal and diagonal strokes', () => {
+    // Round pen of radius 3 leaves a 7px wide stroke
+    const expectedWidth = 7;
+    for (const shape of ['line', 'diagonal'] as ShapeName[]) {
+      const image = SHAPES[shape]();
+      const result = traceSignaturePixels(image, undefined, { mode: 'skeleton' });
+      const points = result.strokes[0].points;
+      const meanWidth = points.reduce((sum, p) => sum + p.z, 0) / points.length / 10000 * image.width;
+      expect(meanWidth).toBeGreaterThan(expectedWidth - 1.5);
+      expect(meanWidth).toBeLessThan(expectedWidth + 1.5);
+    }
+  });
+
+  it('does not clip the thickness of broad marker strokes', () => {
+    const image = blankPage(400, 200);
+    polyline(image, [{ x: 60, y: 100 }, { x: 340, y: 100 }], 15);
+    const result = traceSignaturePixels(image, undefined, { mode: 'skeleton' });
+    const widest = Math.max(...result.strokes.flatMap(s => s.points.map(p => p.z))) / 10000 * image.width;
+    expect(widest).toBeGreaterThan(28);
+  });
+
+  it('estimates the typical stroke width into metadata', () => {
+    const result = traceSignaturePixels(SHAPES.parallel(), [2400, 1600]);
+    // 7px ink at half the original resolution
+    expect(result.metadata.stroke_width_px).toBeGreaterThan(12);
+    expect(result.metadata.stroke_width_px).toBeLessThan(17);
+  });
+
+  it('estimates the natural slant of the downstrokes', () => {
+    const slanted = (deg: number) => {
+      const image = blankPage(360, 200);
+      const lean = Math.tan(deg * Math.PI / 180) * 140;
+      for (const x of [60, 150, 240]) {
+        polyline(image, [{ x, y: 170 }, { x: x + lean, y: 30 }], 3);
+      }
+      return traceSignaturePixels(image, undefined, { mode: 'skeleton' }).metadata.slant_deg!;
+    };
+    expect(Math.abs(slanted(0))).toBeLessThan(2);
+    expect(slanted(20)).toBeGreaterThan(17);
+    expect(slanted(20)).toBeLessThan(23);
+    expect(slanted(-10)).toBeLessThan(-7);
+  });
+
+  it('scales the walker pen to broad and hairline ink', () => {
+    for (const radius of [1, 9]) {
+      const image = blankPage(400, 240);
+      polyline(image, [{ x: 40, y: 80 }, { x: 200, y: 80 }, { x: 360, y: 160 }], radius);
+      const result = traceSignaturePixels(image, undefined, { mode: 'walker' });
+      expect(result.strokes).toHaveLength(1);
+    }
+  });
+
+  it('stops with an AbortError when the signal is already aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => traceSignaturePixels(SHAPES.loop(), undefined, {}, { signal: controller.signal }))
+      .toThrowError(expect.objectContaining({ name: 'AbortError' }));
+  });
+
+  it('reports progress up to the full ink count', () => {
+    const updates: number[] = [];
+    let total = 0;
+    traceSignaturePixels(SHAPES.parallel(), undefined, { mode: 'skeleton' }, {
+      onProgress: (p) => { updates.push(p.strokesFound); total = p.totalPixels; }
+    });
+    expect(updates[updates.length - 1]).toBe(2);
+    expect(total).toBeGreaterThan(0);
+  });
+});
+
+describe('tracer core cleanup', () => {
+  // Spans of a stroke in output units
+  const extent = (points: RawPoint[]) => {
+    const xs = points.map(p => p.x), ys = points.map(p => p.y);
+    return { x: Math.max(...xs) - Math.min(...xs), y: Math.max(...ys) - Math.min(...ys) };
+  };
+
+  it('keeps blue ink and drops black print with ink hue isolation', () => {
+    // Printed line crossed by a blue signature stroke written over it
+    const image = blankPage(240, 160);
+    polyline(image, [{ x: 20, y: 80 }, { x: 220, y: 80 }], 3, 20);
+    polyline(image, [{ x: 40, y: 140 }, { x: 200, y: 20 }], 3, [30, 60, 200]);
+
+    const all = traceSignaturePixels(image, undefined, { mode: 'skeleton' });
+    expect(all.strokes.length).toBeGreaterThan(1);
+
+    const blue = traceSignaturePixels(image, undefined, { mode: 'skeleton', inkHue: 225 });
+    expect(blue.metadata.notes).toMatch(/Ink Hue: 225±30 \(-\d+px\)/);
+    expect(blue.strokes).toHaveLength(1);
+    expect(extent(blue.strokes[0].points).x).toBeGreaterThan(6000);
+    expect(extent(blue.strokes[0].points).y).toBeGreaterThan(6000);
+  });
+
+  it('removes ruled lines and keeps the ink where the signature crosses them', () => {
+    const image = blankPage(240, 160);
+    for (const y of [40, 80, 120]) polyline(image, [{ x: 0, y }, { x: 239, y }], 1);
+    polyline(image, [{ x: 40, y: 20 }, { x: 200, y: 140 }], 3);
+
+    const ruled = traceSignaturePixels(image, undefined, { mode: 'skeleton' });
+    // Traced as flat runs between the crossings
+    expect(ruled.strokes.filter(s => extent(s.points).y < 200 && extent(s.points).x > 2000).length).toBeGreaterThan(2);
+
+    const result = traceSignaturePixels(image, undefined, { mode: 'skeleton', removeRuledLines: true });
+    expect(result.metadata.notes).toMatch(/Ruled Lines: -\d+px/);
+    // One unbroken stroke, corner to corner
+    expect(result.strokes).toHaveLength(1);
+    const [stroke] = result.strokes;
+    expect(extent(stroke.points).x).toBeGreaterThan(6000);
+    expect(extent(stroke.points).y).toBeGreaterThan(6000);
+    // Every point sits on the diagonal, none strays along a ruled line
+    for (const p of stroke.points) {
+      const x = (p.x / 10000) * 240, y = (p.y / 10000) * 160;
+      expect(Math.abs(y - (20 + (x - 40) * 0.75))).toBeLessThan(6);
+    }
+  });
+});
@@ -38,11 +38,18 @@ export interface Stroke {
   type?: 'stroke' | 'dot';
 }
 
+// Stroke ordering policy (script direction) used when the analysis was traced
+// 'ltr': Latin & co, 'rtl': Arabic, Hebrew, 'ttb': vertical columns, 'headline-first': Devanagari shirorekha before the letters
+export type StrokeOrder = 'ltr' | 'rtl' | 'ttb' | 'headline-first';
+
 export interface SignatureAnalysis {
   strokes: Stroke[];
   metadata: {
     original_size: [number, number];
     notes: string;
+    stroke_width_px?: number; // Estimated typical ink width, in original image pixels
+    stroke_order?: StrokeOrder;
+    slant_deg?: number; // Estimated natural slant, degrees from vertical, positive leans right
   };
   // Deprecated fields explicit removal to ensure type safety
   level1_graph?: never;
@@ -61,9 +68,11 @@ export interface PhysicsPoint {
 
 export interface StrokePath {
   id: string;
+  type?: 'stroke' | 'dot' | 'air'; // 'dot': a pen tap, both points sit on the same spot. 'air': pen hovering, no ink
   points: PhysicsPoint[];
   startTime: number;
   endTime: number;
+  tailStart?: number; // Index of the last traced point, the overshoot tail fades out after it
 }
 
 // Preset Types